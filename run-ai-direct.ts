@@ -2,6 +2,7 @@
 
 import dotenv from 'dotenv';
 import { SimpleAIAtlassianCLI } from './src/cli/ai-cli';
+import { parseCLIFlags } from './src/cli/cli-options';
 
 // Load environment variables
 dotenv.config();
@@ -9,7 +10,7 @@ dotenv.config();
 async function main() {
     try {
         console.log('🚀 Starting Simple AI Interactive CLI...');
-        const cli = new SimpleAIAtlassianCLI();
+        const cli = new SimpleAIAtlassianCLI(parseCLIFlags());
         await cli.start();
     } catch (error) {
         console.error('❌ AI session failed:', error);
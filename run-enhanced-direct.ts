@@ -2,6 +2,7 @@
 
 import dotenv from 'dotenv';
 import { EnhancedInteractiveCLI } from './src/cli/enhanced-interactive-cli';
+import { parseCLIFlags } from './src/cli/cli-options';
 
 // Load environment variables
 dotenv.config();
@@ -9,7 +10,7 @@ dotenv.config();
 async function main() {
     try {
         console.log('🚀 Starting Enhanced AI Interactive CLI...');
-        const cli = new EnhancedInteractiveCLI();
+        const cli = new EnhancedInteractiveCLI(parseCLIFlags());
         await cli.start();
     } catch (error) {
         console.error('❌ Enhanced AI session failed:', error);
@@ -2,6 +2,7 @@
 
 import dotenv from 'dotenv';
 import { SimpleEnhancedCLI } from './src/cli/simple-enhanced-cli';
+import { parseCLIFlags } from './src/cli/cli-options';
 
 // Load environment variables
 dotenv.config();
@@ -9,7 +10,7 @@ dotenv.config();
 async function main() {
   try {
     console.log('🚀 Starting Simple Enhanced AI...');
-    const cli = new SimpleEnhancedCLI();
+    const cli = new SimpleEnhancedCLI(parseCLIFlags());
     await cli.start();
   } catch (error) {
     console.error('❌ Simple Enhanced AI failed:', error);
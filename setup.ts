@@ -7,7 +7,7 @@
 
 import { loadConfig, validateConfig } from './src/config/atlassian-config.js';
 import { createConsoleLogger } from './src/utils/logger.js';
-import { AtlassianMCPClient } from './src/client/atlassian-client.js';
+import { AtlassianMCPClient } from './src/client/atlassian-mcp-client.js';
 
 async function runSetup() {
   const logger = createConsoleLogger();
@@ -39,8 +39,9 @@ async function runSetup() {
   try {
     const config = loadConfig();
     const client = new AtlassianMCPClient({
-      config,
-      logger
+      connection: { type: 'oauth', atlassian: config.atlassian },
+      logger,
+      maxRetries: config.rateLimit.maxRetries
     });
     console.log('✅ Client initialized successfully');
   } catch (error) {
@@ -187,7 +187,7 @@ export class EnhancedAI {
       ]
     }
     
-    Important: Use exact tool names from the available tools list. Don't include cloudId in parameters - it will be added automatically.
+    Important: Use exact tool names from the available tools list. Names like "github.search_issues" belong to other MCP servers; keep the server prefix. Don't include cloudId in parameters - it will be added automatically.
     
     Respond with valid JSON only.
     `;
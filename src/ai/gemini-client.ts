@@ -25,8 +25,13 @@ export class GeminiClient {
   /**
    * Analyze user query and determine if a tool should be called
    */
-  async analyzeQuery(userQuery: string, availableTools: ToolInfo[]): Promise<AIAnalysis> {
-    const prompt = this.createAnalysisPrompt(userQuery, availableTools);
+  async analyzeQuery(
+    userQuery: string,
+    availableTools: ToolInfo[],
+    previousError?: string,
+    serverContext = ''
+  ): Promise<AIAnalysis> {
+    const prompt = this.createAnalysisPrompt(userQuery, availableTools, previousError, serverContext);
 
     try {
       const response = await this.ai.models.generateContent({
@@ -81,18 +86,27 @@ export class GeminiClient {
     }
   }
 
-  private createAnalysisPrompt(userQuery: string, availableTools: ToolInfo[]): string {
+  private createAnalysisPrompt(
+    userQuery: string,
+    availableTools: ToolInfo[],
+    previousError: string | undefined,
+    serverContext: string
+  ): string {
     const toolsList = availableTools.map(tool =>
       `- ${tool.name}: ${tool.description}`
     ).join('\n');
 
+    const correction = previousError
+      ? `\nYour previous tool call was rejected: ${previousError}\nFix the tool name and parameters so they match the tool's input schema.\n`
+      : '';
+
     return `You are an AI assistant that helps users interact with Jira and Confluence through MCP tools.
 
 User Query: "${userQuery}"
 
 Available MCP Tools:
 ${toolsList}
-
+${serverContext}${correction}
 Your job is to:
 1. Understand what the user wants
 2. Determine if a tool should be called
@@ -126,7 +140,7 @@ Examples:
 - "Hello" → shouldCallTool: false, response: "Hello! How can I help you with Jira or Confluence today?"
 - "What can you do?" → shouldCallTool: false, response: "I can help you search tickets, get project info, manage Confluence pages, and more. Just ask!"
 
-Important: Use exact tool names from the list above. Don't include cloudId in parameters - it will be added automatically.`;
+Important: Use exact tool names from the list above. Names like "github.search_issues" belong to other MCP servers; keep the server prefix. Don't include cloudId in parameters - it will be added automatically.`;
   }
 
   private createFormattingPrompt(data: any, originalQuery: string): string {
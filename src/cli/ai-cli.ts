@@ -5,12 +5,27 @@ import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import dotenv from 'dotenv';
+import { pathToFileURL } from 'url';
 import { GeminiClient, ToolInfo } from '../ai/gemini-client.js';
 import { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
+import { ToolValidationError } from '../utils/error-handler.js';
+import { handleSiteCommand } from './site-commands.js';
+import { followToolListChanges, reportConnectionEvents } from './connection-events.js';
+import { runCancellableQuery } from './query-cancellation.js';
+import { showRateLimitWait } from './rate-limit-status.js';
+import { showToolProgress } from './tool-progress.js';
+import { useMiddlewareFromEnv } from './cli-middleware.js';
+import { printDryRunBanner, reportDryRuns } from './dry-run-preview.js';
+import type { CLIOptions } from './cli-options.js';
+import { ServerContext, handleServerContextCommand } from './server-context.js';
+import { createToolSource, describeConnectedServers, type ToolSource } from './mcp-servers.js';
 
 // Load environment variables
 dotenv.config();
 
+// How many times the AI may correct a tool call rejected by schema validation
+const MAX_TOOL_CORRECTIONS = 2;
+
 interface ConversationContext {
   history: Array<{
     userQuery: string;
@@ -23,10 +38,12 @@ interface ConversationContext {
 export class SimpleAIAtlassianCLI {
   private gemini: GeminiClient;
   private mcpClient: AtlassianMCPClient;
+  private tools: ToolSource;
   private context: ConversationContext;
   private availableTools: ToolInfo[] = [];
+  private serverContext = new ServerContext();
 
-  constructor() {
+  constructor(options: CLIOptions = {}) {
     const geminiApiKey = process.env['GEMINI_API_KEY'];
     if (!geminiApiKey) {
       console.error(chalk.red('❌ GEMINI_API_KEY not found in environment variables'));
@@ -36,7 +53,13 @@ export class SimpleAIAtlassianCLI {
     }
 
     this.gemini = new GeminiClient(geminiApiKey);
-    this.mcpClient = new AtlassianMCPClient();
+    this.mcpClient = new AtlassianMCPClient({ dryRun: options.dryRun === true });
+    this.tools = createToolSource(this.mcpClient, options);
+    reportConnectionEvents(this.mcpClient);
+    followToolListChanges(this.tools, tools => {
+      this.availableTools = tools;
+    });
+    reportDryRuns(this.mcpClient);
     this.context = {
       history: [],
       currentSession: new Date().toISOString()
@@ -45,6 +68,7 @@ export class SimpleAIAtlassianCLI {
 
   async start(): Promise<void> {
     console.log(chalk.blue.bold('🤖 Simple AI-Powered Atlassian Assistant'));
+    printDryRunBanner(this.mcpClient);
     console.log(chalk.gray('Connecting to services...'));
 
     // Step 1: Test Gemini AI connection
@@ -59,8 +83,9 @@ export class SimpleAIAtlassianCLI {
     // Step 2: Connect to Atlassian MCP
     const mcpSpinner = ora('Connecting to Atlassian MCP...').start();
     try {
-      await this.mcpClient.connect();
-      mcpSpinner.succeed('Atlassian MCP connected');
+      await useMiddlewareFromEnv(this.tools);
+      await this.tools.connect();
+      mcpSpinner.succeed(describeConnectedServers(this.tools, 'Atlassian MCP connected'));
     } catch (error) {
       mcpSpinner.fail(`Failed to connect to Atlassian MCP: ${error}`);
       return;
@@ -69,7 +94,7 @@ export class SimpleAIAtlassianCLI {
     // Step 3: Get all available tools
     const toolsSpinner = ora('Loading available MCP tools...').start();
     try {
-      const tools = await this.mcpClient.listTools();
+      const tools = await this.tools.listTools();
       this.availableTools = tools.map((tool: any) => ({
         name: tool.name,
         description: tool.description || 'No description available'
@@ -113,7 +138,16 @@ export class SimpleAIAtlassianCLI {
           continue;
         }
 
-        await this.processQuery(trimmedQuery);
+        if (await handleSiteCommand(this.mcpClient, trimmedQuery)) {
+          continue;
+        }
+
+        const serverCommand = await handleServerContextCommand(this.mcpClient, trimmedQuery, this.serverContext);
+        if (serverCommand.handled && !serverCommand.query) {
+          continue;
+        }
+
+        await runCancellableQuery(signal => this.processQuery(serverCommand.query ?? trimmedQuery, signal));
 
       } catch (error) {
         if (error instanceof Error && error.name === 'ExitPromptError') {
@@ -159,29 +193,59 @@ export class SimpleAIAtlassianCLI {
     }
   }
 
-  private async processQuery(userQuery: string): Promise<void> {
+  private async processQuery(userQuery: string, signal: AbortSignal): Promise<void> {
     const spinner = ora('🧠 Analyzing your query...').start();
+    signal.addEventListener('abort', () => spinner.stop(), { once: true });
 
     try {
       // Step 1: Let AI analyze the query and decide what to do
       spinner.text = '🧠 AI is analyzing your request...';
-      const analysis = await this.gemini.analyzeQuery(userQuery, this.availableTools);
+      let analysis = await this.gemini.analyzeQuery(userQuery, this.availableTools, undefined, this.serverContext.toPromptSection());
+      signal.throwIfAborted();
 
       spinner.succeed(`AI Analysis: ${analysis.reasoning}`);
 
-      let finalResponse: string;
+      let finalResponse: string | undefined;
 
-      if (analysis.shouldCallTool && analysis.toolName) {
-        // Step 2: Call the MCP tool directly
-        spinner.text = `🛠️  Calling ${analysis.toolName}...`;
-        const toolResult = await this.mcpClient.callTool(analysis.toolName, analysis.parameters || {});
+      for (let attempt = 0; !finalResponse; attempt++) {
+        if (!analysis.shouldCallTool || !analysis.toolName) {
+          // No tool needed, use AI's direct response
+          finalResponse = analysis.response || 'I understand your request but don\'t need to call any tools.';
+          break;
+        }
+
+        try {
+          // Step 2: Call the MCP tool directly
+          spinner.start(`🛠️  Calling ${analysis.toolName}...`);
+          const toolResult = await this.tools.callTool(analysis.toolName, analysis.parameters || {}, {
+            signal,
+            onQueued: showRateLimitWait(spinner),
+            onProgress: showToolProgress(spinner),
+            audit: { query: userQuery, reasoning: analysis.reasoning }
+          });
+
+          // Step 3: Let AI format the response
+          spinner.text = '✨ Formatting response...';
+          finalResponse = await this.gemini.formatResponse(toolResult, userQuery);
+          signal.throwIfAborted();
+          spinner.stop();
+        } catch (error) {
+          if (!(error instanceof ToolValidationError) || attempt >= MAX_TOOL_CORRECTIONS) {
+            throw error;
+          }
 
-        // Step 3: Let AI format the response
-        spinner.text = '✨ Formatting response...';
-        finalResponse = await this.gemini.formatResponse(toolResult, userQuery);
-      } else {
-        // No tool needed, use AI's direct response
-        finalResponse = analysis.response || 'I understand your request but don\'t need to call any tools.';
+          // Step 2b: Let the AI correct its tool call using the validation errors
+          spinner.warn(error.message);
+          spinner.start('🧠 AI is correcting the tool call...');
+          analysis = await this.gemini.analyzeQuery(
+            userQuery,
+            this.availableTools,
+            error.message,
+            this.serverContext.toPromptSection()
+          );
+          signal.throwIfAborted();
+          spinner.succeed(`AI Analysis: ${analysis.reasoning}`);
+        }
       }
 
       // Display the response
@@ -197,6 +261,10 @@ export class SimpleAIAtlassianCLI {
       });
 
     } catch (error) {
+      if (signal.aborted) {
+        // runCancellableQuery already reported the cancellation
+        return;
+      }
       spinner.fail('❌ Error processing query');
       console.error(chalk.red('Error:'), error);
       console.log(chalk.yellow('💡 Try rephrasing your question or type "help" for examples.'));
@@ -220,7 +288,14 @@ export class SimpleAIAtlassianCLI {
     console.log(chalk.gray('  • history  - Show conversation history'));
     console.log(chalk.gray('  • clear    - Clear screen'));
     console.log(chalk.gray('  • tools    - Show available MCP tools'));
+    console.log(chalk.gray('  • sites    - List accessible Atlassian sites'));
+    console.log(chalk.gray('  • site <x> - Switch active site (URL, name or cloudId)'));
+    console.log(chalk.gray('  • resources / prompts     - Browse what the MCP server offers'));
+    console.log(chalk.gray('  • read <uri>              - Show a server resource'));
+    console.log(chalk.gray('  • attach <uri> / detach   - Add a resource to (or remove it from) the AI context'));
+    console.log(chalk.gray('  • prompt <name> [k=v ...] - Run a server-provided prompt'));
     console.log(chalk.gray('  • exit     - Exit the application'));
+    console.log(chalk.gray('  • Ctrl+C   - Cancel the running query'));
     console.log();
   }
 
@@ -255,7 +330,7 @@ export class SimpleAIAtlassianCLI {
   private async cleanup(): Promise<void> {
     console.log(chalk.yellow('Cleaning up connections...'));
     try {
-      await this.mcpClient.disconnect();
+      await this.tools.disconnect();
       console.log(chalk.green('✅ Cleanup complete'));
     } catch (error) {
       console.error(chalk.red('Error during cleanup:'), error);
@@ -274,8 +349,10 @@ program
 program
   .command('chat')
   .description('Start interactive AI chat session')
-  .action(async () => {
-    const cli = new SimpleAIAtlassianCLI();
+  .option('--dry-run', 'Preview changes to Jira and Confluence instead of making them')
+  .option('--mcp-config [path]', 'Also use the MCP servers in this config (default: mcp.json)')
+  .action(async (options: CLIOptions) => {
+    const cli = new SimpleAIAtlassianCLI(options);
     await cli.start();
   });
 
@@ -289,12 +366,15 @@ program
     console.log(chalk.white('npm run ai'));
   });
 
-// Default action is to start chat
-if (process.argv.length === 2) {
-  const cli = new SimpleAIAtlassianCLI();
-  cli.start().catch(console.error);
-} else {
-  program.parse();
+// Only parse the command line when run directly, not when imported by another launcher
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  // Default action is to start chat
+  if (process.argv.length === 2) {
+    const cli = new SimpleAIAtlassianCLI();
+    cli.start().catch(console.error);
+  } else {
+    program.parse();
+  }
 }
 
 export default SimpleAIAtlassianCLI;
@@ -0,0 +1,46 @@
+import chalk from 'chalk';
+import type { AuditRecord, AuditVerification } from '../client/audit-log.js';
+
+/**
+ * Print audit records, oldest first
+ */
+export function printAuditRecords(records: AuditRecord[]): void {
+  if (records.length === 0) {
+    console.log(chalk.gray('No audit records found.'));
+    return;
+  }
+
+  for (const record of records) {
+    const outcome = record.outcome === 'success' ? chalk.green('✅') : chalk.red('❌');
+    const ids = record.resultIds.length > 0 ? ` → ${record.resultIds.join(', ')}` : '';
+
+    console.log(chalk.white(`\n#${record.sequence} ${outcome} ${record.tool}${ids}`));
+    console.log(chalk.gray(`   When:      ${new Date(record.timestamp).toLocaleString()}`));
+    console.log(chalk.gray(`   Actor:     ${record.actor}`));
+    console.log(chalk.gray(`   cloudId:   ${record.cloudId ?? 'none'}`));
+    if (record.query) {
+      console.log(chalk.gray(`   Query:     ${record.query}${record.step ? ` (step ${record.step})` : ''}`));
+    }
+    if (record.reasoning) {
+      console.log(chalk.gray(`   Reasoning: ${record.reasoning}`));
+    }
+    console.log(chalk.gray(`   Arguments: ${JSON.stringify(record.arguments)}`));
+    if (record.error) {
+      console.log(chalk.red(`   Error:     ${record.error}`));
+    }
+  }
+  console.log();
+}
+
+/**
+ * Print the result of checking the hash chain
+ */
+export function printAuditVerification(path: string, verification: AuditVerification): void {
+  if (verification.valid) {
+    console.log(chalk.green(`✅ Audit chain intact: ${verification.records} record(s) in ${path}`));
+    return;
+  }
+
+  const where = verification.brokenAt ? ` at record #${verification.brokenAt}` : '';
+  console.log(chalk.red(`❌ Audit chain broken${where}: ${verification.reason}`));
+}
@@ -0,0 +1,43 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { loggingMiddleware, type ToolCallMiddleware } from '../client/middleware.js';
+import { createConsoleLogger } from '../utils/console-logger.js';
+import { ConfigurationError } from '../utils/error-handler.js';
+import { getToolSourceClients, type ToolSource } from './mcp-servers.js';
+
+/**
+ * Add the tool call middleware configured for the CLIs: call logging when
+ * DEBUG_MODE=true, then the modules listed in ATLASSIAN_MCP_MIDDLEWARE
+ * (comma separated paths, each default-exporting a middleware or an array of them),
+ * on every client behind the tool source
+ */
+export async function useMiddlewareFromEnv(source: ToolSource): Promise<void> {
+  const clients = getToolSourceClients(source);
+  const use = (middleware: ToolCallMiddleware) => clients.forEach(client => client.use(middleware));
+
+  if (process.env['DEBUG_MODE'] === 'true') {
+    use(loggingMiddleware(createConsoleLogger('debug')));
+  }
+
+  const modules = (process.env['ATLASSIAN_MCP_MIDDLEWARE'] ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  for (const modulePath of modules) {
+    let loaded: { default?: ToolCallMiddleware | ToolCallMiddleware[] };
+    try {
+      loaded = await import(pathToFileURL(path.resolve(modulePath)).href);
+    } catch (error) {
+      throw new ConfigurationError(
+        `Could not load middleware ${modulePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!loaded.default) {
+      throw new ConfigurationError(`Middleware module ${modulePath} has no default export`);
+    }
+
+    [loaded.default].flat().forEach(use);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Options shared by the interactive CLIs
+ */
+export interface CLIOptions {
+  /** Preview write tools instead of sending them */
+  dryRun?: boolean;
+  /** mcp.json-style file (true for ./mcp.json) whose mcpServers join the session, with tools named "<server>.<tool>" */
+  mcpConfig?: string | true;
+}
+
+/**
+ * Read the shared flags from the command line, for launchers without commander
+ */
+export function parseCLIFlags(argv: string[] = process.argv.slice(2)): CLIOptions {
+  const options: CLIOptions = { dryRun: argv.includes('--dry-run') };
+
+  const index = argv.indexOf('--mcp-config');
+  if (index !== -1) {
+    const value = argv[index + 1];
+    options.mcpConfig = value && !value.startsWith('--') ? value : true;
+  }
+
+  return options;
+}
@@ -0,0 +1,42 @@
+import chalk from 'chalk';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
+import type { ToolSource } from './mcp-servers.js';
+
+/**
+ * Print reconnect progress so a long-running session shows why a call is waiting
+ */
+export function reportConnectionEvents(client: AtlassianMCPClient): void {
+  client.on('connectionLost', () => {
+    console.log(chalk.yellow('\n⚠️  Lost connection to the Atlassian MCP server'));
+  });
+
+  client.on('reconnecting', ({ attempt, maxAttempts, delayMs }: { attempt: number; maxAttempts: number; delayMs: number }) => {
+    console.log(chalk.gray(`🔄 Reconnecting in ${Math.round(delayMs / 1000)}s (attempt ${attempt}/${maxAttempts})...`));
+  });
+
+  client.on('reconnected', () => {
+    console.log(chalk.green('✅ Reconnected to the Atlassian MCP server'));
+  });
+
+  client.on('reconnectFailed', (error: unknown) => {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.log(chalk.red(`❌ Could not reconnect: ${reason}. Restart the session to try again.`));
+  });
+}
+
+/**
+ * Keep a CLI's tool list in step with the server after it announces a change
+ */
+export function followToolListChanges(
+  client: ToolSource,
+  onChange: (tools: Array<{ name: string; description: string }>) => void
+): void {
+  client.on('toolListChanged', (tools: Tool[]) => {
+    onChange(tools.map(tool => ({
+      name: tool.name,
+      description: tool.description || 'No description available'
+    })));
+    console.log(chalk.gray(`\n🔧 The server's tools changed; ${tools.length} tools now available`));
+  });
+}
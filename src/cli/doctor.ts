@@ -0,0 +1,111 @@
+import chalk from 'chalk';
+import { spawnSync } from 'child_process';
+import { constants as fsConstants, promises as fs } from 'fs';
+import path from 'path';
+import type { AtlassianMCPClient, HealthCheckResult } from '../client/atlassian-mcp-client.js';
+
+export interface DoctorCheck {
+  name: string;
+  status: 'ok' | 'warn' | 'fail';
+  detail: string;
+}
+
+/**
+ * Print the health report of a connected (or failed) client
+ */
+export function printHealthReport(health: HealthCheckResult): void {
+  const { details } = health;
+  const mark = (ok: boolean) => ok ? chalk.green('✅') : chalk.red('❌');
+
+  console.log(chalk.white(`\n${mark(health.overall)} Overall: ${health.overall ? 'healthy' : 'unhealthy'}`));
+  console.log(chalk.gray(`   Connection:     ${details.connectionType} → ${details.serverUrl}`));
+  console.log(chalk.gray(`   Connected:      ${details.connected ? 'yes' : 'no'}`));
+  console.log(chalk.gray(`   Ping:           ${details.pingLatencyMs !== null ? `${details.pingLatencyMs}ms` : 'failed'}`));
+  console.log(chalk.gray(`   Protocol:       ${details.protocolVersion ?? 'unknown'}`));
+  console.log(chalk.gray(`   Server:         ${details.serverInfo ? `${details.serverInfo.name} ${details.serverInfo.version}` : 'unknown'}`));
+  if (details.process) {
+    console.log(chalk.gray(`   Process:        ${details.process.command} (pid ${details.process.pid ?? 'not running'})`));
+    if (details.process.mcpRemoteVersion) {
+      console.log(chalk.gray(`   mcp-remote:     ${details.process.mcpRemoteVersion}`));
+    }
+  }
+  console.log(chalk.gray(`   Site:           ${details.activeSite ? `${details.activeSite.name} (${details.activeSite.url})` : 'none'}`));
+  console.log(chalk.gray(`   cloudId:        ${details.cloudId ?? 'none'}`));
+  console.log(chalk.gray(`   Authenticated:  ${health.authentication ? 'yes' : 'no'}`));
+  console.log(chalk.gray(`   Tools:          ${details.toolCount}`));
+  if (details.lastError) {
+    console.log(chalk.yellow(`   Last error:     ${details.lastError.message} (${details.lastError.operation}, ${new Date(details.lastError.at).toLocaleString()})`));
+  }
+}
+
+/**
+ * Check the local environment: npx or the configured server command, the
+ * Gemini key for the AI CLIs and writable log, cache and audit directories
+ */
+export async function checkEnvironment(client: AtlassianMCPClient): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+
+  const launch = client.getStdioLaunch();
+  const usesNpx = launch?.command === 'npx';
+  const npx = spawnSync('npx', ['--version'], { encoding: 'utf8', timeout: 30000, shell: process.platform === 'win32' });
+  checks.push(npx.status === 0
+    ? { name: 'npx', status: 'ok', detail: `version ${npx.stdout.trim()}` }
+    : {
+      name: 'npx',
+      status: usesNpx ? 'fail' : 'warn',
+      detail: `not available${usesNpx ? '; the server command needs it' : ''}`
+    });
+
+  // Bare command names are looked up on PATH when the process starts
+  if (launch && !usesNpx && launch.command.includes(path.sep)) {
+    const command = path.resolve(launch.cwd ?? '.', launch.command);
+    const executable = await fs.access(command, fsConstants.X_OK).then(() => true, () => false);
+    checks.push({ name: 'Server command', status: executable ? 'ok' : 'fail', detail: `${command}${executable ? '' : ' is not executable'}` });
+  }
+
+  checks.push(process.env['GEMINI_API_KEY']
+    ? { name: 'GEMINI_API_KEY', status: 'ok', detail: 'set' }
+    : { name: 'GEMINI_API_KEY', status: 'warn', detail: 'not set; the AI CLIs need it' });
+
+  const directories: Array<[string, string]> = [
+    ['Log directory', 'logs'],
+    ['Cache directory', process.env['ATLASSIAN_MCP_CACHE_DIR'] ?? '.mcp-cache']
+  ];
+  const auditLog = client.getAuditLog();
+  if (auditLog) {
+    directories.push(['Audit log directory', path.dirname(auditLog.path)]);
+  }
+
+  for (const [name, directory] of directories) {
+    const writable = await isWritable(directory);
+    checks.push({ name, status: writable ? 'ok' : 'fail', detail: `${path.resolve(directory)}${writable ? '' : ' is not writable'}` });
+  }
+
+  return checks;
+}
+
+export function printDoctorChecks(checks: DoctorCheck[]): void {
+  const icons = { ok: chalk.green('✅'), warn: chalk.yellow('⚠️ '), fail: chalk.red('❌') };
+  for (const check of checks) {
+    console.log(`${icons[check.status]} ${chalk.white(check.name)} ${chalk.gray(check.detail)}`);
+  }
+}
+
+/**
+ * Whether the directory, or the nearest existing parent it would be created in, is writable
+ */
+async function isWritable(directory: string): Promise<boolean> {
+  let current = path.resolve(directory);
+  for (;;) {
+    try {
+      await fs.access(current, fsConstants.W_OK);
+      return true;
+    } catch (error) {
+      const parent = path.dirname(current);
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === current) {
+        return false;
+      }
+      current = parent;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import chalk from 'chalk';
+import type { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
+import type { DryRunPreview } from '../client/dry-run.js';
+
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * Print the banner for dry-run sessions
+ */
+export function printDryRunBanner(client: AtlassianMCPClient): void {
+  if (client.isDryRun()) {
+    console.log(chalk.magenta('🧪 Dry-run mode: changes to Jira and Confluence are previewed, not sent'));
+  }
+}
+
+/**
+ * Print a diff-like preview for each write tool call intercepted in dry-run mode
+ */
+export function reportDryRuns(client: AtlassianMCPClient): void {
+  client.on('dryRun', (preview: DryRunPreview) => {
+    const target = preview.target ? ` ${preview.target}` : '';
+    console.log(chalk.magenta(`\n🧪 Dry run: ${preview.toolName}${target} (not sent)`));
+
+    if (preview.changes.length === 0) {
+      console.log(chalk.gray('  (no changes)'));
+    }
+
+    for (const change of preview.changes) {
+      if ('before' in change) {
+        if (JSON.stringify(change.before) === JSON.stringify(change.after)) {
+          console.log(chalk.gray(`    ${change.field}: ${formatValue(change.after)} (unchanged)`));
+          continue;
+        }
+        console.log(chalk.red(`  - ${change.field}: ${formatValue(change.before)}`));
+      }
+      console.log(chalk.green(`  + ${change.field}: ${formatValue(change.after)}`));
+    }
+  });
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
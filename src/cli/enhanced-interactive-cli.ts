@@ -4,6 +4,16 @@ import ora from 'ora';
 import dotenv from 'dotenv';
 import { EnhancedAI, AIAnalysis, UIAction, ExecutionContext, ToolInfo } from '../ai/enhanced-ai';
 import { AtlassianMCPClient } from '../client/atlassian-mcp-client';
+import { handleSiteCommand } from './site-commands';
+import { followToolListChanges, reportConnectionEvents } from './connection-events';
+import { runCancellableQuery } from './query-cancellation';
+import { showRateLimitWait } from './rate-limit-status';
+import { showToolProgress } from './tool-progress';
+import { useMiddlewareFromEnv } from './cli-middleware';
+import { printDryRunBanner, reportDryRuns } from './dry-run-preview';
+import type { CLIOptions } from './cli-options';
+import { createToolSource, describeConnectedServers, type ToolSource } from './mcp-servers';
+import { ServerContext, handleServerContextCommand } from './server-context';
 
 // Load environment variables
 dotenv.config();
@@ -49,32 +59,42 @@ export interface UserInteraction {
 export class EnhancedInteractiveCLI {
     private ai: EnhancedAI;
     private mcpClient: AtlassianMCPClient;
+    private tools: ToolSource;
     private availableTools: ToolInfo[] = [];
     private executionHistory: ExecutionHistory | null = null;
+    private serverContext = new ServerContext();
 
-    constructor() {
+    constructor(options: CLIOptions = {}) {
         if (!process.env['GEMINI_API_KEY']) {
             throw new Error('GEMINI_API_KEY is required. Please set it in your environment variables.');
         }
 
         this.ai = new EnhancedAI(process.env['GEMINI_API_KEY']);
-        this.mcpClient = new AtlassianMCPClient();
+        this.mcpClient = new AtlassianMCPClient({ dryRun: options.dryRun === true });
+        this.tools = createToolSource(this.mcpClient, options);
+        reportConnectionEvents(this.mcpClient);
+        followToolListChanges(this.tools, tools => {
+            this.availableTools = tools;
+        });
+        reportDryRuns(this.mcpClient);
     }
 
     async start(): Promise<void> {
         console.log(chalk.blue.bold('🤖 Enhanced AI-Powered Atlassian MCP Client'));
+        printDryRunBanner(this.mcpClient);
         console.log(chalk.gray('=============================================='));
 
         try {
             // Connect to MCP server
             const spinner = ora('🔌 Connecting to Atlassian MCP server...').start();
-            await this.mcpClient.connect();
-            spinner.succeed('✅ Connected to Atlassian MCP server');
+            await useMiddlewareFromEnv(this.tools);
+            await this.tools.connect();
+            spinner.succeed(describeConnectedServers(this.tools, '✅ Connected to Atlassian MCP server'));
 
             // Get available tools
             spinner.text = '📋 Fetching available tools...';
             spinner.start();
-            const tools = await this.mcpClient.listTools();
+            const tools = await this.tools.listTools();
             this.availableTools = tools.map(tool => ({
                 name: tool.name,
                 description: tool.description || 'No description available'
@@ -88,13 +108,14 @@ export class EnhancedInteractiveCLI {
             console.error(chalk.red('❌ Failed to start enhanced CLI:'), error);
             throw error;
         } finally {
-            await this.mcpClient.disconnect();
+            await this.tools.disconnect();
         }
     }
 
     private async startInteractiveSession(): Promise<void> {
         console.log(chalk.cyan('\n🎯 Enhanced AI-Powered Multi-Step Execution'));
-        console.log(chalk.gray('The AI will guide you through complex queries with real-time decision making.\n'));
+        console.log(chalk.gray('The AI will guide you through complex queries with real-time decision making.'));
+        console.log(chalk.gray('Type "sites" to list Atlassian sites or "site <url|name>" to switch.\n'));
 
         while (true) {
             try {
@@ -117,8 +138,17 @@ export class EnhancedInteractiveCLI {
                     break;
                 }
 
+                if (await handleSiteCommand(this.mcpClient, query)) {
+                    continue;
+                }
+
+                const serverCommand = await handleServerContextCommand(this.mcpClient, query, this.serverContext);
+                if (serverCommand.handled && !serverCommand.query) {
+                    continue;
+                }
+
                 // Execute enhanced multi-step query
-                await this.executeEnhancedQuery(query);
+                await runCancellableQuery(signal => this.executeEnhancedQuery(serverCommand.query ?? query, signal));
 
             } catch (error) {
                 console.error(chalk.red('❌ Error in interactive session:'), error);
@@ -127,7 +157,7 @@ export class EnhancedInteractiveCLI {
         }
     }
 
-    private async executeEnhancedQuery(userQuery: string): Promise<void> {
+    private async executeEnhancedQuery(userQuery: string, signal: AbortSignal): Promise<void> {
         // Initialize execution history
         this.executionHistory = this.initializeExecutionHistory(userQuery);
 
@@ -156,7 +186,8 @@ export class EnhancedInteractiveCLI {
                 // 3. AI Next Action Suggestion
                 const suggestedAction = await this.ai.suggestNextAction(this.executionHistory.context);
 
-                // 4. Show Enhanced Dashboard
+                // 4. Show Enhanced Dashboard (unless the query was cancelled meanwhile)
+                signal.throwIfAborted();
                 const userChoice = await this.showEnhancedDashboard(suggestedAction, aiAnalysis);
 
                 // 5. Execute Based on User Choice
@@ -188,7 +219,8 @@ export class EnhancedInteractiveCLI {
                 }
 
                 // 6. Execute Action with AI Monitoring
-                const result = await this.executeWithAIMonitoring(actionToExecute);
+                const result = await this.executeWithAIMonitoring(actionToExecute, signal);
+                signal.throwIfAborted();
 
                 // 7. AI Result Validation
                 const validation = await this.ai.validateResult(actionToExecute, result);
@@ -200,7 +232,7 @@ export class EnhancedInteractiveCLI {
                     const recoveryAction = await this.ai.suggestRecoveryAction(validation, this.executionHistory);
                     if (recoveryAction) {
                         console.log(chalk.yellow(`🔄 AI suggests recovery: ${recoveryAction.reasoning}`));
-                        const recoveryResult = await this.executeWithAIMonitoring(recoveryAction);
+                        const recoveryResult = await this.executeWithAIMonitoring(recoveryAction, signal);
                         this.updateExecutionHistory(recoveryAction, recoveryResult);
                     }
                 }
@@ -222,6 +254,10 @@ export class EnhancedInteractiveCLI {
                 }
 
             } catch (error) {
+                if (signal.aborted) {
+                    this.executionHistory.status = 'failed';
+                    return;
+                }
                 console.error(chalk.red(`❌ Error in iteration ${iterationCount}:`), error);
                 this.executionHistory.status = 'failed';
                 break;
@@ -241,7 +277,8 @@ export class EnhancedInteractiveCLI {
             steps: [],
             context: {
                 variables: {},
-                accumulatedData: [],
+                // Resources attached with "attach <uri>" start out as known data
+                accumulatedData: this.serverContext.toAccumulatedData(),
                 availableTools: this.availableTools,
                 iterationCount: 0,
                 strategy: 'initial',
@@ -406,12 +443,22 @@ export class EnhancedInteractiveCLI {
         ]);
     }
 
-    private async executeWithAIMonitoring(action: UIAction): Promise<any> {
+    private async executeWithAIMonitoring(action: UIAction, signal: AbortSignal): Promise<any> {
         const spinner = ora(`🛠️ Executing: ${action.label}`).start();
+        signal.addEventListener('abort', () => spinner.stop(), { once: true });
 
         try {
             const startTime = Date.now();
-            const result = await this.mcpClient.callTool(action.tool, action.parameters);
+            const result = await this.tools.callTool(action.tool, action.parameters, {
+                signal,
+                onQueued: showRateLimitWait(spinner),
+                onProgress: showToolProgress(spinner),
+                audit: {
+                    query: this.executionHistory!.originalQuery,
+                    reasoning: action.reasoning,
+                    step: this.executionHistory!.steps.length + 1
+                }
+            });
             const duration = Date.now() - startTime;
 
             spinner.succeed(`✅ Executed successfully (${duration}ms)`);
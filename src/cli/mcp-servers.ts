@@ -0,0 +1,50 @@
+import chalk from 'chalk';
+import type { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
+import { MultiServerClient, type ServerFailure } from '../client/multi-server-client.js';
+import { reportDryRuns } from './dry-run-preview.js';
+import type { CLIOptions } from './cli-options.js';
+
+/** What the AI CLIs list and call tools through */
+export type ToolSource = AtlassianMCPClient | MultiServerClient;
+
+/**
+ * The Atlassian client alone, or with --mcp-config every server in that file,
+ * the CLI's own client serving the "atlassian" namespace
+ */
+export function createToolSource(client: AtlassianMCPClient, options: CLIOptions): ToolSource {
+  if (!options.mcpConfig) {
+    return client;
+  }
+
+  const configPath = options.mcpConfig === true ? 'mcp.json' : options.mcpConfig;
+  const servers = MultiServerClient.fromConfigFile(configPath, {
+    clients: { atlassian: client },
+    clientOptions: { dryRun: options.dryRun === true }
+  });
+
+  servers.getClients().filter(other => other !== client).forEach(other => reportDryRuns(other));
+  servers.on('serverFailed', ({ server, error }: ServerFailure) => {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.log(chalk.yellow(`⚠️  Could not connect to MCP server "${server}": ${reason}`));
+  });
+
+  return servers;
+}
+
+/**
+ * The clients behind a tool source
+ */
+export function getToolSourceClients(source: ToolSource): AtlassianMCPClient[] {
+  return source instanceof MultiServerClient ? source.getClients() : [source];
+}
+
+/**
+ * Spinner text after connecting: which servers a multi-server session reached
+ */
+export function describeConnectedServers(source: ToolSource, singleServerText: string): string {
+  if (!(source instanceof MultiServerClient)) {
+    return singleServerText;
+  }
+  const servers = source.getConnectedServers();
+  return `Connected to ${servers.length} MCP server${servers.length === 1 ? '' : 's'}: ${servers.join(', ')}`;
+}
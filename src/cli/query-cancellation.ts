@@ -0,0 +1,35 @@
+import chalk from 'chalk';
+import { RequestCancelledError } from '../utils/error-handler.js';
+
+/**
+ * Run one REPL query so that Ctrl+C cancels just that query instead of the session.
+ *
+ * The query gets an AbortSignal to hand to tool calls. Once Ctrl+C is pressed
+ * this returns undefined straight away, even if the current step (e.g. an AI
+ * request) does not watch the signal; the query should check signal.aborted
+ * before printing anything further.
+ */
+export async function runCancellableQuery<T>(run: (signal: AbortSignal) => Promise<T>): Promise<T | undefined> {
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort(new RequestCancelledError('Query cancelled'));
+  const cancelled = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+
+  process.on('SIGINT', onInterrupt);
+  try {
+    const query = run(controller.signal);
+    // The query may still settle after it was cancelled; nobody is waiting for it then
+    query.catch(() => undefined);
+
+    return await Promise.race([query, cancelled]);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log(chalk.yellow('\n⏹️  Query cancelled'));
+      return undefined;
+    }
+    throw error;
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+}
@@ -0,0 +1,37 @@
+import type { Ora } from 'ora';
+import type { RateLimitWait } from '../client/rate-limiter.js';
+
+/**
+ * onQueued handler that counts down a rate limiter wait on the spinner,
+ * then puts the spinner's previous text back
+ */
+export function showRateLimitWait(spinner: Ora): (wait: RateLimitWait) => void {
+  return wait => {
+    const previousText = spinner.text;
+    const startsAt = Date.now() + wait.waitMs;
+    let shownText = '';
+
+    const update = () => {
+      // Someone else updated the spinner; leave it alone
+      if (shownText && spinner.text !== shownText) {
+        clearInterval(timer);
+        return;
+      }
+
+      const remaining = Math.ceil((startsAt - Date.now()) / 1000);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        spinner.text = previousText;
+        return;
+      }
+
+      shownText = `⏳ Rate limit: ${wait.toolName} starts in ${remaining}s` +
+        (wait.position > 0 ? ` (${wait.position} call(s) ahead)` : '');
+      spinner.text = shownText;
+    };
+
+    const timer = setInterval(update, 1000);
+    timer.unref();
+    update();
+  };
+}
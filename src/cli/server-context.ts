@@ -0,0 +1,188 @@
+import chalk from 'chalk';
+import type { GetPromptResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
+
+/** Longest text kept per attached resource, so one large document cannot crowd out the prompt */
+const MAX_ATTACHED_CHARS = 20000;
+
+/**
+ * Resources the user attached to the session; they are added to the AI's context for every query
+ */
+export class ServerContext {
+  private resources = new Map<string, string>();
+
+  attach(uri: string, text: string): void {
+    this.resources.set(uri, text.length > MAX_ATTACHED_CHARS ? `${text.slice(0, MAX_ATTACHED_CHARS)}\n[truncated]` : text);
+  }
+
+  /**
+   * Detach one resource, or all of them without a URI; returns how many were removed
+   */
+  detach(uri?: string): number {
+    if (uri) {
+      return this.resources.delete(uri) ? 1 : 0;
+    }
+    const count = this.resources.size;
+    this.resources.clear();
+    return count;
+  }
+
+  getUris(): string[] {
+    return [...this.resources.keys()];
+  }
+
+  /**
+   * Attached resources as accumulatedData entries for the agent loops
+   */
+  toAccumulatedData(): Array<{ type: string; uri: string; content: string; timestamp: Date }> {
+    return [...this.resources].map(([uri, content]) => ({ type: 'mcp-resource', uri, content, timestamp: new Date() }));
+  }
+
+  /**
+   * Attached resources as a prompt section, or an empty string when nothing is attached
+   */
+  toPromptSection(): string {
+    if (this.resources.size === 0) {
+      return '';
+    }
+
+    const documents = [...this.resources]
+      .map(([uri, content]) => `--- ${uri} ---\n${content}`)
+      .join('\n\n');
+    return `\nContext provided by the MCP server (use it to answer or to choose tool parameters):\n${documents}\n`;
+  }
+}
+
+/**
+ * Join the text parts of a resource; binary parts are described, not included
+ */
+export function resourceContentsToText(contents: ReadResourceResult['contents']): string {
+  return contents
+    .map(part => 'text' in part ? String(part.text) : `[binary ${part.mimeType ?? 'data'} at ${part.uri}]`)
+    .join('\n');
+}
+
+/**
+ * Turn a rendered server prompt into one query for the AI
+ */
+export function promptToQuery(prompt: GetPromptResult): string {
+  return prompt.messages
+    .map(message => {
+      const content = message.content;
+      if (content.type === 'text') {
+        return content.text;
+      }
+      if (content.type === 'resource') {
+        return 'text' in content.resource ? String(content.resource.text) : `[binary resource ${content.resource.uri}]`;
+      }
+      return `[${content.type}]`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Parse key=value pairs into prompt arguments
+ */
+export function parsePromptArguments(pairs: string[]): Record<string, string> {
+  return Object.fromEntries(pairs.map(pair => {
+    const separator = pair.indexOf('=');
+    return separator === -1 ? [pair, ''] : [pair.slice(0, separator), pair.slice(separator + 1)];
+  }));
+}
+
+export interface ServerContextCommandResult {
+  handled: boolean;
+  /** Query to run next, when the command rendered a server prompt */
+  query?: string;
+}
+
+/**
+ * Handle the REPL commands for server resources and prompts:
+ * "resources", "read <uri>", "attach <uri>", "detach [uri]", "prompts" and
+ * "prompt <name> [key=value ...]"
+ */
+export async function handleServerContextCommand(
+  client: AtlassianMCPClient,
+  input: string,
+  context: ServerContext
+): Promise<ServerContextCommandResult> {
+  const [rawCommand, ...rest] = input.trim().split(/\s+/);
+  const command = rawCommand?.toLowerCase();
+  const argument = rest.join(' ');
+
+  switch (command) {
+    case 'resources': {
+      if (argument) {
+        return { handled: false };
+      }
+      const [resources, templates] = await Promise.all([client.listResources(), client.listResourceTemplates()]);
+      if (resources.length === 0 && templates.length === 0) {
+        console.log(chalk.gray('The MCP server offers no resources.'));
+      }
+      resources.forEach(resource => {
+        const attached = context.getUris().includes(resource.uri) ? chalk.green(' (attached)') : '';
+        console.log(chalk.white(`  • ${resource.uri}${attached}`));
+        console.log(chalk.gray(`    ${resource.name}${resource.description ? ` - ${resource.description}` : ''}`));
+      });
+      templates.forEach(template => {
+        console.log(chalk.white(`  • ${template.uriTemplate} (template)`));
+        console.log(chalk.gray(`    ${template.name}${template.description ? ` - ${template.description}` : ''}`));
+      });
+      return { handled: true };
+    }
+
+    case 'read':
+    case 'attach': {
+      if (!argument) {
+        console.log(chalk.yellow(`Usage: ${command} <uri>`));
+        return { handled: true };
+      }
+      const text = resourceContentsToText(await client.readResource(argument));
+      if (command === 'read') {
+        console.log(chalk.white(text));
+      } else {
+        context.attach(argument, text);
+        console.log(chalk.green(`📎 Attached ${argument} (${text.length} characters) to the AI context`));
+      }
+      return { handled: true };
+    }
+
+    case 'detach': {
+      const removed = context.detach(argument || undefined);
+      console.log(chalk.gray(`Detached ${removed} resource(s)`));
+      return { handled: true };
+    }
+
+    case 'prompts': {
+      if (argument) {
+        return { handled: false };
+      }
+      const prompts = await client.listPrompts();
+      if (prompts.length === 0) {
+        console.log(chalk.gray('The MCP server offers no prompts.'));
+      }
+      prompts.forEach(prompt => {
+        const args = (prompt.arguments ?? []).map(arg => arg.required ? `${arg.name}=…` : `[${arg.name}=…]`).join(' ');
+        console.log(chalk.white(`  • ${prompt.name} ${args}`));
+        if (prompt.description) {
+          console.log(chalk.gray(`    ${prompt.description}`));
+        }
+      });
+      return { handled: true };
+    }
+
+    case 'prompt': {
+      const [name, ...pairs] = rest;
+      if (!name) {
+        console.log(chalk.yellow('Usage: prompt <name> [key=value ...]'));
+        return { handled: true };
+      }
+      const query = promptToQuery(await client.getPrompt(name, parsePromptArguments(pairs)));
+      console.log(chalk.gray(`📝 Running server prompt "${name}"`));
+      return { handled: true, query };
+    }
+
+    default:
+      return { handled: false };
+  }
+}
@@ -2,10 +2,20 @@
 
 import dotenv from 'dotenv';
 import chalk from 'chalk';
-import ora from 'ora';
+import ora, { type Ora } from 'ora';
 import inquirer from 'inquirer';
 import { EnhancedAI } from '../ai/enhanced-ai';
 import { AtlassianMCPClient } from '../client/atlassian-mcp-client';
+import { handleSiteCommand } from './site-commands';
+import { followToolListChanges, reportConnectionEvents } from './connection-events';
+import { runCancellableQuery } from './query-cancellation';
+import { showRateLimitWait } from './rate-limit-status';
+import { showToolProgress } from './tool-progress';
+import { useMiddlewareFromEnv } from './cli-middleware';
+import { printDryRunBanner, reportDryRuns } from './dry-run-preview';
+import type { CLIOptions } from './cli-options';
+import { createToolSource, describeConnectedServers, type ToolSource } from './mcp-servers';
+import { ServerContext, handleServerContextCommand } from './server-context';
 
 interface ToolInfo {
   name: string;
@@ -38,20 +48,29 @@ interface ExecutionHistory {
 export class SimpleEnhancedCLI {
   private ai: EnhancedAI;
   private mcpClient: AtlassianMCPClient;
+  private tools: ToolSource;
   private availableTools: ToolInfo[] = [];
   private executionHistory: ExecutionHistory | null = null;
+  private serverContext = new ServerContext();
 
-  constructor() {
+  constructor(options: CLIOptions = {}) {
     if (!process.env['GEMINI_API_KEY']) {
       throw new Error('GEMINI_API_KEY is required. Please set it in your environment variables.');
     }
 
     this.ai = new EnhancedAI(process.env['GEMINI_API_KEY']);
-    this.mcpClient = new AtlassianMCPClient();
+    this.mcpClient = new AtlassianMCPClient({ dryRun: options.dryRun === true });
+    this.tools = createToolSource(this.mcpClient, options);
+    reportConnectionEvents(this.mcpClient);
+    followToolListChanges(this.tools, tools => {
+      this.availableTools = tools;
+    });
+    reportDryRuns(this.mcpClient);
   }
 
   async start(): Promise<void> {
     console.log(chalk.blue('🤖 Simple Enhanced AI-Powered Atlassian Assistant'));
+    printDryRunBanner(this.mcpClient);
     console.log(chalk.gray('==============================================\n'));
 
     // Connect to services
@@ -65,12 +84,13 @@ export class SimpleEnhancedCLI {
 
       // Connect to MCP
       spinner.text = '🔌 Connecting to Atlassian MCP...';
-      await this.mcpClient.connect();
-      spinner.succeed('✅ MCP connected');
+      await useMiddlewareFromEnv(this.tools);
+      await this.tools.connect();
+      spinner.succeed(describeConnectedServers(this.tools, '✅ MCP connected'));
 
       // Load tools
       spinner.text = '📋 Loading tools...';
-      const tools = await this.mcpClient.listTools();
+      const tools = await this.tools.listTools();
       this.availableTools = tools.map(tool => ({
         name: tool.name,
         description: tool.description || 'No description available'
@@ -110,8 +130,17 @@ export class SimpleEnhancedCLI {
           break;
         }
 
+        if (await handleSiteCommand(this.mcpClient, userQuery)) {
+          continue;
+        }
+
+        const serverCommand = await handleServerContextCommand(this.mcpClient, userQuery, this.serverContext);
+        if (serverCommand.handled && !serverCommand.query) {
+          continue;
+        }
+
         // Process the query with minimal user feedback
-        await this.processQuery(userQuery);
+        await runCancellableQuery(signal => this.processQuery(serverCommand.query ?? userQuery, signal));
 
       } catch (error) {
         console.error(chalk.red('❌ Error:'), error);
@@ -119,8 +148,9 @@ export class SimpleEnhancedCLI {
     }
   }
 
-  private async processQuery(userQuery: string): Promise<void> {
+  private async processQuery(userQuery: string, signal: AbortSignal): Promise<void> {
     const spinner = ora(chalk.blue('🤔 Thinking...')).start();
+    signal.addEventListener('abort', () => spinner.stop(), { once: true });
     
     try {
       // Initialize execution history
@@ -132,7 +162,8 @@ export class SimpleEnhancedCLI {
         context: {
           iterationCount: 0,
           strategy: 'direct_execution',
-          accumulatedData: [],
+          // Resources attached with "attach <uri>" start out as known data
+          accumulatedData: this.serverContext.toAccumulatedData(),
           insights: []
         }
       };
@@ -141,6 +172,7 @@ export class SimpleEnhancedCLI {
       const maxIterations = 10;
 
       while (this.executionHistory.status === 'running' && iterationCount < maxIterations) {
+        signal.throwIfAborted();
         iterationCount++;
         this.executionHistory.context.iterationCount = iterationCount;
 
@@ -151,7 +183,7 @@ export class SimpleEnhancedCLI {
         const suggestedAction = await this.ai.suggestNextAction(this.executionHistory.context);
         
         // Execute the action silently
-        const result = await this.executeActionSilently(suggestedAction);
+        const result = await this.executeActionSilently(suggestedAction, signal, spinner);
         
         // Validate result
         const validation = await this.ai.validateResult(suggestedAction, result);
@@ -160,7 +192,7 @@ export class SimpleEnhancedCLI {
           // Try recovery if needed
           const recoveryAction = await this.ai.suggestRecoveryAction(validation, this.executionHistory);
           if (recoveryAction) {
-            const recoveryResult = await this.executeActionSilently(recoveryAction);
+            const recoveryResult = await this.executeActionSilently(recoveryAction, signal, spinner);
             this.updateExecutionHistory(recoveryAction, recoveryResult);
           }
         }
@@ -183,6 +215,7 @@ export class SimpleEnhancedCLI {
 
       // Generate final response
       const finalResponse = await this.generateFinalResponse();
+      signal.throwIfAborted();
       
       spinner.succeed('✅ Done!');
       console.log(chalk.green('\n📋 Result:'));
@@ -190,15 +223,27 @@ export class SimpleEnhancedCLI {
       console.log();
 
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
       spinner.fail('❌ Failed');
       console.error(chalk.red('Error:'), error);
     }
   }
 
-  private async executeActionSilently(action: any): Promise<any> {
+  private async executeActionSilently(action: any, signal: AbortSignal, spinner: Ora): Promise<any> {
     try {
       const startTime = Date.now();
-      const result = await this.mcpClient.callTool(action.toolName, action.parameters || {});
+      const result = await this.tools.callTool(action.toolName, action.parameters || {}, {
+        signal,
+        onQueued: showRateLimitWait(spinner),
+        onProgress: showToolProgress(spinner),
+        audit: {
+          query: this.executionHistory!.query,
+          reasoning: action.reasoning,
+          step: this.executionHistory!.steps.length + 1
+        }
+      });
       const duration = Date.now() - startTime;
       
       return {
@@ -0,0 +1,56 @@
+import chalk from 'chalk';
+import type { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
+import type { AtlassianSite } from '../client/types/site.js';
+
+/**
+ * Print accessible sites with their scopes, marking the active one
+ */
+export function printSites(sites: AtlassianSite[], activeSite: AtlassianSite | null): void {
+  if (sites.length === 0) {
+    console.log(chalk.gray('No accessible Atlassian sites found.'));
+    return;
+  }
+
+  sites.forEach((site, index) => {
+    const marker = site.id === activeSite?.id ? chalk.green(' (active)') : '';
+    console.log(chalk.white(`\n${index + 1}. ${site.name}${marker}`));
+    console.log(chalk.gray(`   URL:     ${site.url}`));
+    console.log(chalk.gray(`   cloudId: ${site.id}`));
+    console.log(chalk.gray(`   Scopes:  ${site.scopes.length > 0 ? site.scopes.join(', ') : 'none'}`));
+  });
+  console.log();
+}
+
+/**
+ * Handle the "sites" and "site <url|name|cloudId>" REPL commands.
+ * Returns true when the input was a site command.
+ */
+export async function handleSiteCommand(client: AtlassianMCPClient, input: string): Promise<boolean> {
+  const [command, ...rest] = input.trim().split(/\s+/);
+  const selector = rest.join(' ');
+
+  if (command?.toLowerCase() === 'sites' && !selector) {
+    printSites(await client.getAccessibleResources(), client.getActiveSite());
+    return true;
+  }
+
+  if (command?.toLowerCase() === 'site') {
+    if (!selector) {
+      const active = client.getActiveSite();
+      console.log(active
+        ? chalk.cyan(`Active site: ${active.name} (${active.url})`)
+        : chalk.yellow('No active site. Use "site <url|name|cloudId>" to choose one.'));
+      return true;
+    }
+
+    try {
+      const site = await client.selectSite(selector);
+      console.log(chalk.green(`✅ Switched to ${site.name} (${site.url})`));
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    }
+    return true;
+  }
+
+  return false;
+}
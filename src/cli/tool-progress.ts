@@ -0,0 +1,14 @@
+import type { Ora } from 'ora';
+import type { ToolProgress } from '../client/atlassian-mcp-client.js';
+
+/**
+ * onProgress handler that appends the server's reported progress to the spinner's current text
+ */
+export function showToolProgress(spinner: Ora): (progress: ToolProgress) => void {
+  const baseText = spinner.text;
+
+  return ({ progress, total, message }) => {
+    const amount = total ? `${Math.min(100, Math.round((progress / total) * 100))}%` : `${progress}`;
+    spinner.text = `${baseText} ${amount}${message ? ` - ${message}` : ''}`;
+  };
+}
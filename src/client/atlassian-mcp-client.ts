@@ -1,193 +1,1772 @@
 /**
- * Simplified Atlassian MCP Client
+ * Atlassian MCP Client
  * 
- * A clean client for connecting to the Atlassian Remote MCP Server
- * using the mcp-remote proxy. No custom wrappers - just direct MCP access.
+ * A client for the Atlassian Remote MCP Server. The connection strategy
+ * (spawned mcp-remote proxy or other stdio server, direct OAuth SSE or another MCP endpoint) comes
+ * from config; tools, retries, logging and health checks are the same for all.
  */
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  LoggingMessageNotificationSchema,
+  McpError,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+  type GetPromptResult,
+  type LoggingLevel,
+  type Prompt,
+  type ReadResourceResult,
+  type Resource,
+  type ResourceTemplate,
+  type Tool
+} from "@modelcontextprotocol/sdk/types.js";
 import EventEmitter from "events";
+import os from "os";
+import {
+  AtlassianMCPError,
+  ConfigurationError,
+  ConnectionError,
+  ErrorHandler,
+  RequestCancelledError,
+  RequestTimeoutError,
+  ToolValidationError,
+  withRetry
+} from "../utils/error-handler.js";
+import type { Logger } from "../utils/logger.js";
+import { createConsoleLogger } from "../utils/console-logger.js";
+import type { AtlassianOAuthProvider } from "./auth/oauth-provider.js";
+import {
+  connectionFromEnv,
+  createAuthProvider,
+  createTransport,
+  getChildProcessId,
+  getConnectionUrl,
+  getStdioLaunch,
+  DEFAULT_MCP_REMOTE_VERSION,
+  type ConnectionConfig,
+  type StdioLaunchOptions
+} from "./transport/transport-factory.js";
+import {
+  RecordingTransport,
+  ReplayTransport,
+  fixtureFromEnv,
+  type FixtureOptions
+} from "./transport/fixture-transport.js";
+import { validateAgainstSchema, type JSONSchema } from "../utils/schema-validator.js";
+import { checkRateLimits, loadRateLimitConfig } from "../config/atlassian-config.js";
+import { RateLimiter, type RateLimiterOptions, type RateLimitWait } from "./rate-limiter.js";
+import type {
+  JiraComment,
+  JiraCreatedIssue,
+  JiraCreateIssueInput,
+  JiraGetIssueOptions,
+  JiraIssue,
+  JiraIssueFields,
+  JiraIterateOptions,
+  JiraProject,
+  JiraProjectOptions,
+  JiraSearchIssuesOptions,
+  JiraSearchResult,
+  JiraTransition,
+  JiraUser
+} from "./types/jira.js";
+import type {
+  ConfluenceComment,
+  ConfluenceCreatePageInput,
+  ConfluenceGetPageOptions,
+  ConfluenceIterateOptions,
+  ConfluenceListSpacesOptions,
+  ConfluencePage,
+  ConfluencePageChildrenOptions,
+  ConfluenceSearchHit,
+  ConfluenceSearchOptions,
+  ConfluenceSearchResult,
+  ConfluenceSpace,
+  ConfluenceUpdatePageInput
+} from "./types/confluence.js";
+import type { AtlassianSite, AtlassianUserInfo } from "./types/site.js";
+import { nextCursor, paginate } from "./pagination.js";
+import { decodeToolResult, type DecodedToolResult } from "./result-decoder.js";
+import {
+  ToolCatalogCache,
+  isEmptyDiff,
+  type ToolCatalogCacheOptions,
+  type ToolCatalogDiff,
+  type ToolCatalogEntry
+} from "./cache/tool-catalog-cache.js";
+import { AuditLog, extractResultIds, type AuditContext, type AuditLogOptions } from "./audit-log.js";
+import {
+  buildDryRunPreview,
+  createDryRunResult,
+  getCurrentStateLookup,
+  isWriteTool,
+  type DryRunPreview
+} from "./dry-run.js";
+import { runMiddleware, syntheticResult, type ToolCallContext, type ToolCallMiddleware } from "./middleware.js";
+import { ResponseCache, type ResponseCacheOptions, type ResponseCacheStats } from "./cache/response-cache.js";
+import {
+  ATLASSIAN_OPERATIONS,
+  assertCapabilities,
+  capabilityMapFromEnv,
+  mergeCapabilityMap,
+  resolveCapabilities,
+  toolForOperation,
+  type AtlassianOperation,
+  type CapabilityMap,
+  type CapabilityReport
+} from "./capability-map.js";
 
 export interface AtlassianMCPClientOptions {
-  serverUrl?: string;
-  mcpRemoteVersion?: string;
+  /** How to reach the MCP server (default: from ATLASSIAN_MCP_TRANSPORT / ATLASSIAN_MCP_SERVER_URL) */
+  connection?: ConnectionConfig;
+  /** Logger for client activity (default: console logger, debug level when debug is set) */
+  logger?: Logger;
   debug?: boolean;
+  /** Attempts for connecting and for each tool call on retryable errors (default: 3) */
+  maxRetries?: number;
+  /** Default per-call timeout in milliseconds (default: 60000) */
+  timeoutMs?: number;
+  /** Validate tool arguments against the server's inputSchema before calling (default: true) */
+  validateArguments?: boolean;
+  /** Site to use when several are accessible: cloudId, site URL or site name (default: ATLASSIAN_SITE env) */
+  site?: string;
+  /** On-disk tools/list cache settings, or false to always fetch from the server */
+  toolCatalogCache?: ToolCatalogCacheOptions | false;
+  /** Reconnect when the connection drops (e.g. the mcp-remote process dies), or false to stay disconnected */
+  reconnect?: ReconnectOptions | false;
+  /** Client-side limit for tool calls (default: from the ATLASSIAN_* rate limit env), or false for none */
+  rateLimit?: Partial<RateLimiterOptions> | false;
+  /** Cache results of read-only tools, or false to always call the server (default: in memory, 5 minutes) */
+  responseCache?: ResponseCacheOptions | false;
+  /** Answer write tools with a stub result and emit a "dryRun" preview instead of calling them */
+  dryRun?: boolean;
+  /** Hash-chained JSONL log of write tool calls, an AuditLog shared with other clients, or false for none (default: ./.mcp-audit/audit.jsonl) */
+  auditLog?: AuditLogOptions | AuditLog | false;
+  /** Lowest server log level to ask for, or false to leave the server's default (default: debug when debug is set, else info) */
+  serverLogLevel?: LoggingLevel | false;
+  /** Record traffic to a fixture or replay one instead of connecting (default: ATLASSIAN_MCP_RECORD / ATLASSIAN_MCP_REPLAY) */
+  fixture?: FixtureOptions | false;
+  /** Tool names per logical operation, replacing the defaults of the operations given (default: ATLASSIAN_TOOL_ALIASES) */
+  capabilities?: Partial<CapabilityMap>;
+  /** Operations connect() fails without (default: none; others fail when called) */
+  requiredOperations?: AtlassianOperation[];
+}
+
+export interface ReconnectOptions {
+  /** Attempts before giving up (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first attempt, doubled for each one after (default: 1000) */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between attempts (default: 30000) */
+  maxDelayMs?: number;
+}
+
+export interface ListToolsOptions {
+  /** Ignore the on-disk cache and fetch tools/list from the server */
+  refresh?: boolean;
+}
+
+export interface HealthCheckResult {
+  overall: boolean;
+  authentication: boolean;
+  transport: boolean;
+  toolsAvailable: boolean;
+  details: {
+    connectionType: ConnectionConfig["type"];
+    serverUrl: string;
+    connected: boolean;
+    activeSite: AtlassianSite | null;
+    cloudId: string | null;
+    availableTools: string[];
+    toolCount: number;
+    /** Round trip of an MCP ping, or null when it failed or there is no connection */
+    pingLatencyMs: number | null;
+    /** Protocol version agreed in the initialize handshake */
+    protocolVersion: string | null;
+    serverInfo: { name: string; version: string } | null;
+    /** The spawned process, for mcp-remote and stdio connections; mcpRemoteVersion is null for custom commands */
+    process: { pid: number | null; command: string; mcpRemoteVersion: string | null } | null;
+    lastError: ClientErrorRecord | null;
+    error?: string;
+  };
+}
+
+export interface ClientErrorRecord {
+  message: string;
+  /** What the client was doing, e.g. "connect" or a tool name */
+  operation: string;
+  at: string;
+}
+
+export interface ToolCallOptions {
+  /** Use this cloudId for the call instead of the active site's */
+  cloudId?: string;
+  /** Cancels the call; the server is sent notifications/cancelled */
+  signal?: AbortSignal;
+  /** Fail with RequestTimeoutError after this many milliseconds (default: the client's timeoutMs) */
+  timeoutMs?: number;
+  /** Called when the call has to wait for the client-side rate limiter */
+  onQueued?: (wait: RateLimitWait) => void;
+  /** Set to false to skip the response cache lookup; the fresh result is still cached */
+  cache?: boolean;
+  /** Why the call is made, recorded in the audit log for write tools */
+  audit?: AuditContext;
+  /** Called for each progress notification the server sends about the call */
+  onProgress?: (progress: ToolProgress) => void;
+}
+
+export interface ToolProgress {
+  toolName: string;
+  progress: number;
+  /** Total the progress counts towards, when the server knows it */
+  total?: number;
+  message?: string;
+}
+
+export interface ServerLogMessage {
+  level: LoggingLevel;
+  /** Name of the server-side logger, if given */
+  logger?: string;
+  data: unknown;
 }
 
 export class AtlassianMCPClient extends EventEmitter {
   private client: Client;
-  private transport: StdioClientTransport | null = null;
+  private transport: Transport | null = null;
   private options: AtlassianMCPClientOptions;
+  private connection: ConnectionConfig;
+  private fixture: FixtureOptions | null;
+  private logger: Logger;
+  private errorHandler: ErrorHandler;
+  private authProvider: AtlassianOAuthProvider | null = null;
   private isConnected = false;
   private cloudId: string | null = null;
+  private activeSite: AtlassianSite | null = null;
+  private protocolVersion: string | null = null;
+  private lastError: ClientErrorRecord | null = null;
+  private toolCatalog: Map<string, Tool> | null = null;
+  private capabilityMap: CapabilityMap;
+  private capabilities: CapabilityReport | null = null;
+  private toolCatalogCache: ToolCatalogCache | null;
+  private lastToolCatalogDiff: ToolCatalogDiff | null = null;
+  private rateLimiter: RateLimiter | null;
+  private responseCache: ResponseCache | null;
+  private middleware: ToolCallMiddleware[] = [];
+  private dryRunCount = 0;
+  private auditLog: AuditLog | null;
+  /** Who the audit log records as acting, looked up on the first write */
+  private auditActor: Promise<string> | null = null;
+  /** Callbacks per subscribed resource URI; subscriptions are renewed after a reconnect */
+  private resourceSubscriptions = new Map<string, Set<(uri: string) => void>>();
+  /** Settles when the running reconnect loop finishes, whatever the outcome */
+  private reconnecting: Promise<void> | null = null;
+  /** Bumped by disconnect() so a reconnect loop in progress stops */
+  private reconnectGeneration = 0;
+  private isDisconnecting = false;
 
   constructor(options: AtlassianMCPClientOptions = {}) {
     super();
     this.options = {
-      serverUrl: "https://mcp.atlassian.com/v1/sse",
-      mcpRemoteVersion: "0.1.13",
       debug: false,
+      maxRetries: 3,
+      timeoutMs: 60000,
+      validateArguments: true,
+      ...(process.env['ATLASSIAN_SITE'] && { site: process.env['ATLASSIAN_SITE'] }),
       ...options
     };
 
+    this.connection = this.options.connection ?? connectionFromEnv();
+    this.fixture = this.options.fixture === false ? null : this.options.fixture ?? fixtureFromEnv();
+    this.logger = this.options.logger ?? createConsoleLogger(this.options.debug ? "debug" : "info");
+    this.errorHandler = new ErrorHandler(this.logger);
+    this.capabilityMap = mergeCapabilityMap(this.options.capabilities ?? capabilityMapFromEnv());
+
+    this.toolCatalogCache = this.options.toolCatalogCache === false
+      ? null
+      : new ToolCatalogCache(this.options.toolCatalogCache);
+
+    const warn = (message: string) => this.logger.warn(message);
+    this.rateLimiter = this.options.rateLimit === false
+      ? null
+      : new RateLimiter(checkRateLimits({ ...loadRateLimitConfig(warn), ...this.options.rateLimit }, warn));
+
+    this.responseCache = this.options.responseCache === false
+      ? null
+      : new ResponseCache(this.options.responseCache);
+
+    this.auditLog = this.options.auditLog === false
+      ? null
+      : this.options.auditLog instanceof AuditLog ? this.options.auditLog : new AuditLog(this.options.auditLog);
+
     this.client = new Client(
       { name: "atlassian-mcp-client", version: "1.0.0" },
       {}
     );
+    this.client.onclose = () => this.handleConnectionLost();
+    this.client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      const { uri } = notification.params;
+      this.logger.debug("Resource updated", { uri });
+      this.emit("resourceUpdated", { uri });
+      this.resourceSubscriptions.get(uri)?.forEach(callback => callback(uri));
+    });
+    this.client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      this.logger.info("Server tool list changed, refreshing the catalog");
+      this.refreshToolCatalog();
+    });
+    this.client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      const { level, logger, data } = notification.params;
+      this.forwardServerLog({ level, data, ...(logger !== undefined && { logger }) });
+    });
   }
 
   /**
-   * Connect to the Atlassian MCP server via mcp-remote proxy
+   * Connect to the Atlassian MCP server using the configured transport
    */
   async connect(): Promise<void> {
     try {
       if (this.isConnected) {
-        console.log("Already connected to Atlassian MCP server");
+        this.logger.warn("Already connected to Atlassian MCP server");
         return;
       }
 
-      console.log("Starting mcp-remote proxy...");
-
-      // Create transport - it will handle the mcp-remote process
-      this.transport = new StdioClientTransport({
-        command: "npx",
-        args: ["-y", `mcp-remote@${this.options.mcpRemoteVersion}`, this.options.serverUrl!]
+      this.logger.info("Connecting to Atlassian MCP server", {
+        connection: this.connection.type,
+        serverUrl: this.getServerUrl()
       });
 
-      // Connect the MCP client
-      await this.client.connect(this.transport);
+      await withRetry(() => this.openTransport(), this.errorHandler, this.options.maxRetries, "connect");
       this.isConnected = true;
 
-      console.log("Successfully connected to Atlassian MCP server!");
+      this.logger.info("Successfully connected to Atlassian MCP server");
       this.emit("connected");
 
+      await this.verifyCapabilities();
+
       // Initialize cloudId
       await this.initializeCloudId();
 
     } catch (error) {
-      console.error("Failed to connect to Atlassian MCP server:", error);
+      this.logger.error("Failed to connect to Atlassian MCP server", error);
+      this.recordError("connect", error);
       await this.disconnect();
       throw error;
     }
   }
 
   /**
-   * Initialize cloudId from accessible resources
+   * Create a fresh transport and run the MCP initialize handshake over it
    */
-  private async initializeCloudId(): Promise<void> {
+  private async openTransport(): Promise<void> {
+    // Transports cannot be restarted, so every attempt gets a fresh one
+    this.transport = await this.createTransport();
+    this.trackProtocolVersion(this.transport);
     try {
-      const resources = await this.callTool("getAccessibleAtlassianResources", {});
-
-      if (Array.isArray(resources) && resources.length > 0) {
-        // Extract cloudId from the first accessible resource
-        const firstResource = resources[0];
-        if (firstResource.id) {
-          this.cloudId = firstResource.id;
-          console.log(`Using cloudId: ${this.cloudId}`);
-        } else {
-          console.warn("No cloudId found in accessible resources");
-        }
-      } else {
-        console.warn("No accessible resources found");
+      await this.client.connect(this.transport);
+    } catch (error) {
+      // Transport failures are worth retrying whichever transport raised them
+      if (error instanceof Error && !(error instanceof AtlassianMCPError)) {
+        throw new ConnectionError(`Failed to connect to Atlassian MCP server: ${error.message}`, error);
+      }
+      throw error;
+    }
+
+    await this.configureServerLogging();
+  }
+
+  private async createTransport(): Promise<Transport> {
+    if (this.fixture?.mode === "replay") {
+      return new ReplayTransport(this.fixture.path, this.logger);
+    }
+
+    const transport = createTransport(this.connection, this.logger, await this.getAuthProvider());
+    return this.fixture?.mode === "record"
+      ? new RecordingTransport(transport, this.fixture.path, this.logger)
+      : transport;
+  }
+
+  /**
+   * Remember the protocol version the SDK hands the transport after initialize
+   */
+  private trackProtocolVersion(transport: Transport): void {
+    const setProtocolVersion = transport.setProtocolVersion?.bind(transport);
+    transport.setProtocolVersion = version => {
+      this.protocolVersion = version;
+      setProtocolVersion?.(version);
+    };
+  }
+
+  /**
+   * Keep the most recent failure for the health report
+   */
+  private recordError(operation: string, error: unknown): void {
+    this.lastError = {
+      message: error instanceof Error ? error.message : String(error),
+      operation,
+      at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Ask the server for log messages at the configured level, when it can send them
+   */
+  private async configureServerLogging(): Promise<void> {
+    const level = this.options.serverLogLevel ?? (this.options.debug ? "debug" : "info");
+    if (level === false || !this.client.getServerCapabilities()?.logging) {
+      return;
+    }
+
+    try {
+      await this.client.setLoggingLevel(level);
+    } catch (error) {
+      this.logger.debug("Could not set the server log level", error);
+    }
+  }
+
+  /**
+   * Pass a server log message on to our logger at the matching level, and emit "serverLog"
+   */
+  private forwardServerLog(message: ServerLogMessage): void {
+    const text = `[server${message.logger ? `:${message.logger}` : ""}] ` +
+      (typeof message.data === "string" ? message.data : JSON.stringify(message.data));
+
+    switch (message.level) {
+      case "debug":
+        this.logger.debug(text);
+        break;
+      case "info":
+      case "notice":
+        this.logger.info(text);
+        break;
+      case "warning":
+        this.logger.warn(text);
+        break;
+      default:
+        this.logger.error(text);
+    }
+
+    this.emit("serverLog", message);
+  }
+
+  /**
+   * Called when the transport closes; anything but an explicit disconnect() counts as a crash
+   */
+  private handleConnectionLost(): void {
+    if (!this.isConnected || this.isDisconnecting) {
+      return;
+    }
+
+    this.isConnected = false;
+    this.transport = null;
+    this.logger.warn("Connection to Atlassian MCP server lost");
+    this.recordError("connection", new Error("Connection to Atlassian MCP server lost"));
+    this.emit("connectionLost");
+
+    if (this.options.reconnect === false) {
+      this.emit("disconnected");
+      return;
+    }
+
+    this.reconnecting = this.reconnect(this.options.reconnect ?? {}).finally(() => {
+      this.reconnecting = null;
+    });
+  }
+
+  /**
+   * Reconnect with exponential backoff, keeping the active site
+   */
+  private async reconnect(options: ReconnectOptions): Promise<void> {
+    const maxAttempts = options.maxAttempts ?? 5;
+    const initialDelayMs = options.initialDelayMs ?? 1000;
+    const maxDelayMs = options.maxDelayMs ?? 30000;
+    const site = this.activeSite?.id ?? this.options.site;
+    const generation = this.reconnectGeneration;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const delayMs = Math.min(initialDelayMs * Math.pow(2, attempt - 1), maxDelayMs);
+      this.logger.info(`Reconnecting to Atlassian MCP server (attempt ${attempt}/${maxAttempts})`, { delayMs });
+      this.emit("reconnecting", { attempt, maxAttempts, delayMs });
+
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      if (generation !== this.reconnectGeneration) {
+        return;
+      }
+
+      try {
+        await this.openTransport();
+        this.isConnected = true;
+        await this.initializeCloudId(site);
+        await this.renewResourceSubscriptions();
+
+        this.logger.info("Reconnected to Atlassian MCP server", { attempts: attempt });
+        this.emit("reconnected", { attempts: attempt });
+        return;
+      } catch (error) {
+        lastError = error;
+        this.recordError("reconnect", error);
+        this.isConnected = false;
+        this.logger.warn(`Reconnect attempt ${attempt} failed`, error);
+        await this.transport?.close().catch(() => undefined);
+        this.transport = null;
+      }
+    }
+
+    this.logger.error(`Giving up reconnecting after ${maxAttempts} attempts`, lastError);
+    this.emit("reconnectFailed", lastError);
+    this.emit("disconnected");
+  }
+
+  /**
+   * OAuth provider for oauth connections; the other transports authenticate on their own
+   */
+  private async getAuthProvider(): Promise<AtlassianOAuthProvider | null> {
+    if (this.connection.type !== "oauth") {
+      return null;
+    }
+
+    this.authProvider ??= await createAuthProvider(this.connection, this.logger);
+    return this.authProvider;
+  }
+
+  /**
+   * Run the OAuth flow ahead of connecting (oauth connections only)
+   */
+  async authenticate(): Promise<void> {
+    const authProvider = await this.getAuthProvider();
+    if (!authProvider) {
+      throw new ConfigurationError(
+        `Explicit authentication needs an oauth connection; ${this.connection.type} handles sign-in itself`
+      );
+    }
+
+    this.logger.info("Starting authentication process");
+    await authProvider.authenticate();
+    this.logger.info("Authentication completed");
+  }
+
+  /**
+   * Get authentication status
+   */
+  getAuthStatus(): { isAuthenticated: boolean; transportConnected: boolean; toolsAvailable: number } {
+    return {
+      // mcp-remote and plain endpoints authenticate during connect
+      isAuthenticated: this.authProvider ? this.authProvider.isAuthenticated() : this.isConnected,
+      transportConnected: this.isConnected,
+      toolsAvailable: this.toolCatalog?.size ?? 0
+    };
+  }
+
+  /**
+   * Ping the server and report latency, server details, tool availability and the last error
+   */
+  async healthCheck(): Promise<HealthCheckResult> {
+    let transport = false;
+    let error: string | undefined;
+    let pingLatencyMs: number | null = null;
+
+    if (this.isConnected) {
+      try {
+        const startedAt = performance.now();
+        await this.client.ping();
+        pingLatencyMs = Math.round(performance.now() - startedAt);
+        transport = true;
+      } catch (pingError) {
+        this.recordError("ping", pingError);
+        error = pingError instanceof Error ? pingError.message : String(pingError);
+        this.logger.warn("Health check ping failed", { error });
+      }
+    }
+
+    let tools: Tool[] = [];
+    if (transport) {
+      try {
+        tools = await this.listTools();
+      } catch (listError) {
+        error = listError instanceof Error ? listError.message : String(listError);
+        this.recordError("tools/list", listError);
+      }
+    }
+
+    const serverVersion = this.client.getServerVersion();
+    const launch = getStdioLaunch(this.connection);
+    const authentication = this.getAuthStatus().isAuthenticated;
+    const health: HealthCheckResult = {
+      overall: authentication && transport && tools.length > 0,
+      authentication,
+      transport,
+      toolsAvailable: tools.length > 0,
+      details: {
+        connectionType: this.connection.type,
+        serverUrl: this.getServerUrl(),
+        connected: this.isConnected,
+        activeSite: this.activeSite,
+        cloudId: this.cloudId,
+        availableTools: tools.map(tool => tool.name),
+        toolCount: tools.length,
+        pingLatencyMs,
+        protocolVersion: this.isConnected ? this.protocolVersion : null,
+        serverInfo: this.isConnected && serverVersion ? { name: serverVersion.name, version: serverVersion.version } : null,
+        process: launch
+          ? {
+            pid: this.transport ? getChildProcessId(this.transport) : null,
+            command: [launch.command, ...launch.args ?? []].join(" "),
+            mcpRemoteVersion: this.connection.type === "mcp-remote" && !this.connection.command
+              ? this.connection.mcpRemoteVersion ?? DEFAULT_MCP_REMOTE_VERSION
+              : null
+          }
+          : null,
+        lastError: this.lastError,
+        ...(error !== undefined && { error })
       }
+    };
+
+    this.logger.info("Health check completed", { overall: health.overall });
+    return health;
+  }
+
+  /**
+   * Resolve the capability map against the server's live tools/list, not the
+   * cache; ambiguous or missing required operations fail the connect
+   */
+  private async verifyCapabilities(): Promise<void> {
+    try {
+      await this.listTools({ refresh: true });
+    } catch (error) {
+      this.logger.warn("Could not list tools to check the capability map", error);
+      return;
+    }
+
+    const report = this.capabilities;
+    if (!report) {
+      return;
+    }
+    assertCapabilities(report, this.capabilityMap, this.options.requiredOperations ?? []);
+
+    if (this.isOtherServer()) {
+      this.logger.debug("Server has none of the Atlassian operations");
+    } else if (report.missing.length > 0) {
+      this.logger.info(
+        `Server supports ${ATLASSIAN_OPERATIONS.length - report.missing.length} of ${ATLASSIAN_OPERATIONS.length} operations; ` +
+        `not available: ${report.missing.join(", ")}`
+      );
+    } else {
+      this.logger.debug("Server supports every operation", { tools: report.supported });
+    }
+  }
+
+  /**
+   * Initialize cloudId from accessible resources, honoring the configured site
+   */
+  private async initializeCloudId(siteSelector = this.options.site): Promise<void> {
+    if (this.capabilities?.missing.includes("getAccessibleResources")) {
+      this.logger.debug("Server cannot list Atlassian sites, no cloudId to add to calls");
+      return;
+    }
+
+    let sites: AtlassianSite[];
+    try {
+      sites = await this.getAccessibleResources();
     } catch (error) {
-      console.warn("Could not initialize cloudId:", error);
+      this.logger.warn("Could not initialize cloudId", error);
+      return;
+    }
+
+    if (siteSelector) {
+      // A configured site that is not accessible is a hard error, not a silent fallback
+      this.setActiveSite(this.resolveSite(sites, siteSelector));
+      return;
+    }
+
+    const [firstSite] = sites;
+    if (!firstSite) {
+      this.logger.warn("No accessible resources found");
+      return;
+    }
+
+    if (sites.length > 1) {
+      this.logger.warn(
+        `Found ${sites.length} accessible sites, defaulting to ${firstSite.name} (${firstSite.url}). ` +
+        `Set ATLASSIAN_SITE or the "site" option to choose another.`
+      );
+    }
+    this.setActiveSite(firstSite);
+  }
+
+  /**
+   * Find a site by cloudId, URL or name
+   */
+  private resolveSite(sites: AtlassianSite[], selector: string): AtlassianSite {
+    const wanted = normalizeSiteSelector(selector);
+    const site = sites.find(candidate =>
+      candidate.id === selector ||
+      normalizeSiteSelector(candidate.url) === wanted ||
+      candidate.name.toLowerCase() === wanted
+    );
+
+    if (!site) {
+      const available = sites.map(candidate => `${candidate.name} (${candidate.url})`).join(", ") || "none";
+      throw new ConfigurationError(`Atlassian site "${selector}" is not accessible. Available sites: ${available}`);
     }
+
+    return site;
+  }
+
+  private setActiveSite(site: AtlassianSite): void {
+    this.activeSite = site;
+    this.cloudId = site.id;
+    this.logger.info(`Using site ${site.name} (${site.url}), cloudId: ${site.id}`);
+    this.emit("siteChanged", site);
   }
 
   /**
    * Disconnect from the MCP server
    */
   async disconnect(): Promise<void> {
+    this.isDisconnecting = true;
+    this.reconnectGeneration++;
+
     try {
       if (this.client && this.isConnected) {
         await this.client.close();
+      } else if (this.transport) {
+        // A failed connect can leave the transport open without a connected client
+        await this.transport.close();
       }
+      this.transport = null;
 
-      if (this.transport) {
-        this.transport = null;
-      }
+      this.toolCatalog = null;
+      this.capabilities = null;
+      this.resourceSubscriptions.clear();
+      this.activeSite = null;
+      this.cloudId = null;
 
       this.isConnected = false;
-      console.log("Disconnected from Atlassian MCP server");
+      this.logger.info("Disconnected from Atlassian MCP server");
       this.emit("disconnected");
     } catch (error) {
-      console.error("Error during disconnect:", error);
+      this.logger.error("Error during disconnect", error);
+    } finally {
+      this.isDisconnecting = false;
     }
   }
 
   /**
-   * List available tools from the MCP server
+   * List available tools, served from the on-disk cache while it is fresh
    */
-  async listTools() {
+  async listTools(options: ListToolsOptions = {}): Promise<Tool[]> {
+    if (!options.refresh) {
+      const cached = await this.getCachedToolCatalog();
+      if (cached) {
+        this.setToolCatalog(cached.tools);
+        return cached.tools;
+      }
+    }
+
     if (!this.isConnected) {
-      throw new Error("Not connected to MCP server");
+      throw new ConnectionError("Not connected to MCP server");
     }
 
     const response = await this.client.listTools();
+    this.setToolCatalog(response.tools);
+    await this.saveToolCatalog(response.tools);
     return response.tools;
   }
 
+  private setToolCatalog(tools: Tool[]): void {
+    this.toolCatalog = new Map(tools.map(tool => [tool.name, tool]));
+    this.capabilities = resolveCapabilities(this.capabilityMap, tools);
+  }
+
+  /**
+   * Which logical operations the server supports and the tool used for each; null until tools are listed
+   */
+  getCapabilities(): CapabilityReport | null {
+    return this.capabilities;
+  }
+
+  /**
+   * Tool name for a logical operation, as resolved against the server's tools
+   */
+  private toolFor(operation: AtlassianOperation): string {
+    if (!this.capabilities) {
+      // tools/list was not available; try the first candidate and let the server answer
+      return this.capabilityMap[operation][0] ?? operation;
+    }
+    return toolForOperation(this.capabilities, this.capabilityMap, operation);
+  }
+
   /**
-   * Call any MCP tool directly with automatic cloudId inclusion
+   * Fetch tools/list again after the server announced a change, then emit "toolListChanged"
    */
-  async callTool(toolName: string, parameters: Record<string, any>): Promise<any> {
+  private refreshToolCatalog(): void {
     if (!this.isConnected) {
-      throw new Error("Not connected to MCP server");
+      return;
     }
 
-    // Add cloudId to parameters if available and not already present
-    const finalParameters = { ...parameters };
-    if (this.cloudId && !finalParameters['cloudId']) {
-      finalParameters['cloudId'] = this.cloudId;
+    this.listTools({ refresh: true })
+      .then(tools => this.emit("toolListChanged", tools))
+      .catch(error => this.logger.warn("Could not refresh the tool catalog", error));
+  }
+
+  /**
+   * Read the cached tool catalog without connecting; stale entries need allowStale
+   */
+  async getCachedToolCatalog(options: { allowStale?: boolean } = {}): Promise<ToolCatalogEntry | null> {
+    if (!this.toolCatalogCache) {
+      return null;
+    }
+
+    return await this.toolCatalogCache.load(this.getServerUrl(), this.getCacheSiteKey(), options.allowStale);
+  }
+
+  /**
+   * What changed in the catalog at the last server fetch, compared with the cached copy
+   */
+  getLastToolCatalogDiff(): ToolCatalogDiff | null {
+    return this.lastToolCatalogDiff;
+  }
+
+  private async saveToolCatalog(tools: Tool[]): Promise<void> {
+    if (!this.toolCatalogCache) {
+      return;
     }
 
+    const serverVersion = this.client.getServerVersion();
+
     try {
-      const response = await this.client.callTool({
-        name: toolName,
-        arguments: finalParameters
+      this.lastToolCatalogDiff = await this.toolCatalogCache.save({
+        serverUrl: this.getServerUrl(),
+        site: this.getCacheSiteKey(),
+        fetchedAt: new Date().toISOString(),
+        serverVersion: serverVersion ? { name: serverVersion.name, version: serverVersion.version } : null,
+        tools
       });
+    } catch (error) {
+      this.logger.warn("Could not write tool catalog cache", error);
+      return;
+    }
 
-      // Parse response content
-      if (response.content && Array.isArray(response.content) && response.content.length > 0) {
-        const content = response.content[0];
-        if (content.type === "text" && content.text) {
-          try {
-            return JSON.parse(content.text);
-          } catch (e) {
-            // If not JSON, return as string
-            return content.text;
-          }
-        }
+    if (this.lastToolCatalogDiff && !isEmptyDiff(this.lastToolCatalogDiff)) {
+      this.emit("toolsChanged", this.lastToolCatalogDiff);
+    }
+  }
+
+  /**
+   * Cache key for the site; uses the configured selector so it is known before connecting
+   */
+  private getCacheSiteKey(): string {
+    return this.options.site ?? "default";
+  }
+
+  private getServerUrl(): string {
+    return getConnectionUrl(this.connection);
+  }
+
+  /**
+   * Call any MCP tool directly with automatic cloudId inclusion.
+   *
+   * Returns the decoded result data; results that only carry binary content
+   * return their attachments. Use callToolDetailed() to get both.
+   */
+  async callTool(toolName: string, parameters: Record<string, any>, options: ToolCallOptions = {}): Promise<any> {
+    const decoded = await this.callToolDetailed(toolName, parameters, options);
+
+    if (decoded.data === undefined && decoded.attachments.length > 0) {
+      return decoded.attachments;
+    }
+
+    return decoded.data ?? null;
+  }
+
+  /**
+   * Call an MCP tool and return data, binary attachments and resource links separately
+   */
+  async callToolDetailed(
+    toolName: string,
+    parameters: Record<string, any>,
+    options: ToolCallOptions = {}
+  ): Promise<DecodedToolResult> {
+    // Calls made while reconnecting wait for the outcome
+    if (!this.isConnected && this.reconnecting) {
+      await this.reconnecting;
+    }
+
+    if (!this.isConnected) {
+      throw new ConnectionError("Not connected to MCP server");
+    }
+
+    try {
+      if (this.options.validateArguments && !this.toolCatalog) {
+        await this.listTools();
       }
 
-      return response;
+      const context: ToolCallContext = {
+        toolName,
+        args: parameters,
+        tool: this.toolCatalog?.get(toolName),
+        cloudId: options.cloudId ?? this.cloudId,
+        options,
+        state: {},
+        startedAt: Date.now()
+      };
+
+      return await runMiddleware(this.middleware, context, current => this.executeToolCall(current));
     } catch (error) {
-      console.error(`Error calling tool ${toolName}:`, error);
+      if (error instanceof RequestCancelledError) {
+        this.logger.info(`Tool call ${toolName} cancelled`);
+      } else {
+        this.logger.error(`Error calling tool ${toolName}`, error);
+      }
+      this.recordError(toolName, error);
       throw error;
     }
   }
 
   /**
-   * Check if connected
+   * Add middleware around every tool call; middleware runs in the order it was added
    */
-  isConnectedToServer(): boolean {
-    return this.isConnected;
+  use(middleware: ToolCallMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
-   * Get the cloudId (for debugging)
+   * The innermost step of a tool call: validate, then answer from the cache or the server
    */
-  getCloudId(): string | null {
-    return this.cloudId;
+  private async executeToolCall(context: ToolCallContext): Promise<DecodedToolResult> {
+    const { toolName, cloudId, options } = context;
+    const finalParameters = await this.prepareArguments(toolName, context.args, cloudId);
+
+    if (this.options.dryRun && this.isWriteTool(toolName, context.tool)) {
+      return await this.dryRunToolCall(toolName, finalParameters, options);
+    }
+
+    if (!this.isReadOnlyTool(toolName)) {
+      const audited = this.isWriteTool(toolName, context.tool);
+      try {
+        const decoded = decodeToolResult(toolName, await this.sendToolCall(toolName, finalParameters, options));
+        if (audited) {
+          await this.recordAudit(toolName, finalParameters, cloudId, options.audit, { data: decoded.data });
+        }
+        return decoded;
+      } catch (error) {
+        if (audited) {
+          await this.recordAudit(toolName, finalParameters, cloudId, options.audit, { error });
+        }
+        throw error;
+      } finally {
+        // Even a failed write may have changed something
+        await this.invalidateResponseCache(toolName, finalParameters, cloudId);
+      }
+    }
+
+    if (options.cache !== false) {
+      const cached = await this.readResponseCache(toolName, finalParameters, cloudId);
+      if (cached !== undefined) {
+        return decodeToolResult(toolName, cached);
+      }
+    }
+
+    const response = await this.sendToolCall(toolName, finalParameters, options);
+
+    // Throws ToolExecutionError when the server reports isError
+    const decoded = decodeToolResult(toolName, response);
+    await this.writeResponseCache(toolName, finalParameters, cloudId, response, decoded.data);
+    return decoded;
   }
 
   /**
-   * Get the underlying MCP client (for advanced usage)
+   * Append a write call to the audit log. The call has already happened, so a
+   * failure here is reported with an "auditFailed" event rather than thrown.
    */
-  getMCPClient(): Client {
-    return this.client;
+  private async recordAudit(
+    toolName: string,
+    args: Record<string, unknown>,
+    cloudId: string | null,
+    audit: AuditContext | undefined,
+    outcome: { data?: unknown; error?: unknown }
+  ): Promise<void> {
+    // Replayed writes never reached Atlassian
+    if (!this.auditLog || this.fixture?.mode === "replay") {
+      return;
+    }
+
+    try {
+      const failed = "error" in outcome;
+      await this.auditLog.append({
+        timestamp: new Date().toISOString(),
+        tool: toolName,
+        arguments: args,
+        cloudId,
+        actor: await this.getAuditActor(),
+        query: audit?.query ?? null,
+        reasoning: audit?.reasoning ?? null,
+        step: audit?.step ?? null,
+        outcome: failed ? "error" : "success",
+        resultIds: failed ? [] : extractResultIds(outcome.data),
+        error: failed ? (outcome.error instanceof Error ? outcome.error.message : String(outcome.error)) : null
+      });
+    } catch (error) {
+      this.logger.error(`Could not write ${toolName} to the audit log`, error);
+      this.emit("auditFailed", { toolName, error });
+    }
+  }
+
+  private getAuditActor(): Promise<string> {
+    this.auditActor ??= this.getCurrentUser()
+      .then(user => user ? `${user.name ?? user.email ?? "unknown"} (${user.account_id})` : null)
+      .catch(() => null)
+      .then(actor => actor ?? `local:${os.userInfo().username}`);
+    return this.auditActor;
+  }
+
+  /**
+   * The audit log for write tool calls, or null when it is turned off
+   */
+  getAuditLog(): AuditLog | null {
+    return this.auditLog;
+  }
+
+  /**
+   * Report what a write call would change and answer it with a stub
+   */
+  private async dryRunToolCall(
+    toolName: string,
+    args: Record<string, unknown>,
+    options: ToolCallOptions
+  ): Promise<DecodedToolResult> {
+    let current: Record<string, unknown> | undefined;
+    const lookup = getCurrentStateLookup(toolName, args);
+    if (lookup) {
+      try {
+        const result = await this.callTool(lookup.toolName, lookup.args, {
+          ...(options.cloudId && { cloudId: options.cloudId }),
+          ...(options.signal && { signal: options.signal })
+        });
+        if (result && typeof result === "object" && !Array.isArray(result)) {
+          current = result;
+        }
+      } catch (error) {
+        this.logger.debug(`Could not read the current state for the ${toolName} preview`, error);
+      }
+    }
+
+    const preview: DryRunPreview = buildDryRunPreview(toolName, args, current);
+    this.logger.info(`Dry run: ${toolName} was not sent`, { target: preview.target, changes: preview.changes.length });
+    this.emit("dryRun", preview);
+
+    return syntheticResult(createDryRunResult(toolName, args, ++this.dryRunCount));
+  }
+
+  isDryRun(): boolean {
+    return this.options.dryRun === true;
   }
+
+  /**
+   * Send tools/call once the rate limiter lets it through
+   */
+  private async sendToolCall(
+    toolName: string,
+    args: Record<string, unknown>,
+    options: ToolCallOptions
+  ): Promise<unknown> {
+    if (!this.rateLimiter) {
+      return await this.sendToolCallNow(toolName, args, options);
+    }
+
+    const release = await this.rateLimiter.acquire(toolName, {
+      ...(options.signal && { signal: options.signal }),
+      onWait: wait => {
+        this.logger.debug(`Waiting ${wait.waitMs}ms for the rate limiter`, wait);
+        options.onQueued?.(wait);
+      }
+    });
+
+    try {
+      return await this.sendToolCallNow(toolName, args, options);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Send tools/call. When the connection drops mid-call, read-only and idempotent
+   * tools are replayed once after reconnecting; anything else fails, since it may
+   * already have changed data on the server.
+   */
+  private async sendToolCallNow(
+    toolName: string,
+    args: Record<string, unknown>,
+    options: ToolCallOptions
+  ): Promise<unknown> {
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs!;
+
+    // The SDK sends notifications/cancelled when the signal aborts or the timeout fires
+    const send = async () => {
+      try {
+        return await this.client.callTool({ name: toolName, arguments: args }, undefined, {
+          timeout: timeoutMs,
+          ...(options.signal && { signal: options.signal }),
+          onprogress: ({ progress, total, message }) => {
+            const update: ToolProgress = {
+              toolName,
+              progress,
+              ...(total !== undefined && { total }),
+              ...(message !== undefined && { message })
+            };
+            options.onProgress?.(update);
+            this.emit("progress", update);
+          }
+        });
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw new RequestCancelledError(`${toolName} was cancelled`, error instanceof Error ? error : undefined);
+        }
+        if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+          throw new RequestTimeoutError(`${toolName} timed out after ${timeoutMs}ms`, timeoutMs, error);
+        }
+        throw error;
+      }
+    };
+
+    try {
+      // Only the server round trip is retried; validation failures are not
+      return await withRetry(send, this.errorHandler, this.options.maxRetries, toolName);
+    } catch (error) {
+      if (!isConnectionClosed(error)) {
+        throw error;
+      }
+
+      const cause = error instanceof Error ? error : undefined;
+      // The close event that rejected this call has already started the reconnect, if enabled
+      if (!this.reconnecting) {
+        throw new ConnectionError(`Connection to the MCP server was lost during ${toolName}`, cause);
+      }
+
+      const annotations = this.toolCatalog?.get(toolName)?.annotations;
+      if (!annotations?.readOnlyHint && !annotations?.idempotentHint) {
+        throw new ConnectionError(
+          `Connection to the MCP server was lost during ${toolName}. It was not replayed because it may ` +
+          `already have been applied; check the result before retrying.`,
+          cause
+        );
+      }
+
+      await this.reconnecting;
+      if (!this.isConnected) {
+        throw new ConnectionError(`Connection to the MCP server was lost during ${toolName} and could not be restored`, cause);
+      }
+
+      this.logger.info(`Replaying ${toolName} after reconnect`);
+      return await send();
+    }
+  }
+
+  /**
+   * Hit and miss counts of the response cache, or null when it is turned off
+   */
+  getResponseCacheStats(): ResponseCacheStats | null {
+    return this.responseCache?.getStats() ?? null;
+  }
+
+  async clearResponseCache(): Promise<void> {
+    await this.responseCache?.clear();
+  }
+
+  private isReadOnlyTool(toolName: string): boolean {
+    return this.toolCatalog?.get(toolName)?.annotations?.readOnlyHint === true;
+  }
+
+  /**
+   * Whether a call changes data; on a server that is not Atlassian's, any tool
+   * not annotated read-only counts as a write, so dry runs fail closed
+   */
+  private isWriteTool(toolName: string, tool: Tool | undefined): boolean {
+    return isWriteTool(toolName, tool, { failClosed: this.isOtherServer() });
+  }
+
+  /**
+   * Whether the server has none of the Atlassian operations, e.g. another server of a multi-server session
+   */
+  private isOtherServer(): boolean {
+    return this.capabilities?.missing.length === ATLASSIAN_OPERATIONS.length;
+  }
+
+  // A broken cache only costs a server round trip, so its errors are logged and ignored
+
+  private async readResponseCache(
+    toolName: string,
+    args: Record<string, unknown>,
+    cloudId: string | null
+  ): Promise<unknown> {
+    try {
+      const cached = await this.responseCache?.get(toolName, args, cloudId);
+      if (cached !== undefined) {
+        this.logger.debug(`Serving ${toolName} from the response cache`);
+      }
+      return cached;
+    } catch (error) {
+      this.logger.warn("Could not read response cache", error);
+      return undefined;
+    }
+  }
+
+  private async writeResponseCache(
+    toolName: string,
+    args: Record<string, unknown>,
+    cloudId: string | null,
+    response: unknown,
+    data: unknown
+  ): Promise<void> {
+    try {
+      await this.responseCache?.set(toolName, args, cloudId, response, data);
+    } catch (error) {
+      this.logger.warn("Could not write response cache", error);
+    }
+  }
+
+  private async invalidateResponseCache(
+    toolName: string,
+    args: Record<string, unknown>,
+    cloudId: string | null
+  ): Promise<void> {
+    try {
+      const dropped = await this.responseCache?.invalidate(toolName, args, cloudId);
+      if (dropped) {
+        this.logger.debug(`${toolName} dropped ${dropped} cached response(s)`);
+      }
+    } catch (error) {
+      this.logger.warn("Could not update response cache", error);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Resources and prompts
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List every resource the server offers; empty when it does not offer resources
+   */
+  async listResources(): Promise<Resource[]> {
+    if (!this.serverOffers("resources")) {
+      return [];
+    }
+
+    const resources: Resource[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.client.listResources(cursor ? { cursor } : {});
+      resources.push(...page.resources);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return resources;
+  }
+
+  /**
+   * List the server's URI templates for parameterized resources
+   */
+  async listResourceTemplates(): Promise<ResourceTemplate[]> {
+    if (!this.serverOffers("resources")) {
+      return [];
+    }
+
+    const templates: ResourceTemplate[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.client.listResourceTemplates(cursor ? { cursor } : {});
+      templates.push(...page.resourceTemplates);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return templates;
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult["contents"]> {
+    this.requireServerCapability("resources");
+    const result = await this.client.readResource({ uri });
+    return result.contents;
+  }
+
+  /**
+   * Get notified when a resource changes; the returned function unsubscribes
+   */
+  async subscribeResource(uri: string, onUpdated?: (uri: string) => void): Promise<() => Promise<void>> {
+    this.requireServerCapability("resources");
+    if (!this.client.getServerCapabilities()?.resources?.subscribe) {
+      throw new AtlassianMCPError("The MCP server does not support resource subscriptions", "UNSUPPORTED_CAPABILITY");
+    }
+
+    let callbacks = this.resourceSubscriptions.get(uri);
+    if (!callbacks) {
+      await this.client.subscribeResource({ uri });
+      callbacks = new Set();
+      this.resourceSubscriptions.set(uri, callbacks);
+    }
+
+    const callback = onUpdated ?? (() => undefined);
+    callbacks.add(callback);
+
+    return async () => {
+      callbacks.delete(callback);
+      if (callbacks.size === 0 && this.resourceSubscriptions.get(uri) === callbacks) {
+        this.resourceSubscriptions.delete(uri);
+        if (this.isConnected) {
+          await this.client.unsubscribeResource({ uri });
+        }
+      }
+    };
+  }
+
+  /**
+   * List every prompt the server offers; empty when it does not offer prompts
+   */
+  async listPrompts(): Promise<Prompt[]> {
+    if (!this.serverOffers("prompts")) {
+      return [];
+    }
+
+    const prompts: Prompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.client.listPrompts(cursor ? { cursor } : {});
+      prompts.push(...page.prompts);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return prompts;
+  }
+
+  /**
+   * Render a server prompt with its arguments
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    this.requireServerCapability("prompts");
+    return await this.client.getPrompt({ name, arguments: args });
+  }
+
+  private serverOffers(capability: "resources" | "prompts"): boolean {
+    if (!this.isConnected) {
+      throw new ConnectionError("Not connected to MCP server");
+    }
+    return Boolean(this.client.getServerCapabilities()?.[capability]);
+  }
+
+  private requireServerCapability(capability: "resources" | "prompts"): void {
+    if (!this.serverOffers(capability)) {
+      throw new AtlassianMCPError(`The MCP server does not offer ${capability}`, "UNSUPPORTED_CAPABILITY");
+    }
+  }
+
+  /**
+   * Subscriptions belong to the server session, so a new session has to make them again
+   */
+  private async renewResourceSubscriptions(): Promise<void> {
+    for (const uri of this.resourceSubscriptions.keys()) {
+      try {
+        await this.client.subscribeResource({ uri });
+      } catch (error) {
+        this.logger.warn(`Could not renew the subscription to ${uri}`, error);
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sites
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List the Atlassian sites the authenticated user can access
+   */
+  async getAccessibleResources(): Promise<AtlassianSite[]> {
+    const result = await this.callTool(this.toolFor("getAccessibleResources"), {});
+    return Array.isArray(result) ? result : [];
+  }
+
+  /**
+   * The Atlassian account the client is signed in as
+   */
+  async getCurrentUser(): Promise<AtlassianUserInfo | null> {
+    const result = await this.callTool(this.toolFor("getCurrentUser"), {});
+    return result && typeof result === "object" && "account_id" in result ? result : null;
+  }
+
+  /**
+   * Switch the active site by cloudId, URL or name
+   */
+  async selectSite(selector: string): Promise<AtlassianSite> {
+    const site = this.resolveSite(await this.getAccessibleResources(), selector);
+    this.setActiveSite(site);
+    return site;
+  }
+
+  /**
+   * Get the site whose cloudId is added to tool calls
+   */
+  getActiveSite(): AtlassianSite | null {
+    return this.activeSite;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Jira
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get a single Jira issue by id or key
+   */
+  async getIssue(issueIdOrKey: string, options: JiraGetIssueOptions = {}): Promise<JiraIssue> {
+    return await this.callTool(this.toolFor("getIssue"), {
+      issueIdOrKey,
+      fields: options.fields,
+      expand: options.expand
+    });
+  }
+
+  /**
+   * Search Jira issues with JQL (returns a single page)
+   */
+  async searchIssues(
+    jql: string,
+    options: JiraSearchIssuesOptions & ToolCallOptions = {}
+  ): Promise<JiraSearchResult> {
+    const result = await this.callTool(this.toolFor("searchIssues"), {
+      jql,
+      fields: options.fields,
+      maxResults: options.maxResults,
+      nextPageToken: options.nextPageToken
+    }, options);
+
+    return {
+      ...result,
+      issues: Array.isArray(result?.issues) ? result.issues : []
+    };
+  }
+
+  /**
+   * Iterate over every issue matching a JQL query, following pagination lazily
+   *
+   *   for await (const issue of client.iterateJql("project = MD", { limit: 500 })) { ... }
+   */
+  iterateJql(jql: string, options: JiraIterateOptions & ToolCallOptions = {}): AsyncGenerator<JiraIssue> {
+    return paginate<JiraIssue>(async (cursor, pageSize) => {
+      const result = await this.callTool(this.toolFor("searchIssues"), {
+        jql,
+        fields: options.fields,
+        maxResults: pageSize,
+        ...(cursor && ("token" in cursor ? { nextPageToken: cursor.token } : { startAt: cursor.offset }))
+      }, options);
+
+      const issues: JiraIssue[] = Array.isArray(result?.issues) ? result.issues : [];
+      return {
+        items: issues,
+        next: nextCursor(result?.nextPageToken, result?.startAt, issues.length, result?.total, result?.isLast)
+      };
+    }, options);
+  }
+
+  /**
+   * Create a Jira issue
+   */
+  async createIssue(input: JiraCreateIssueInput): Promise<JiraCreatedIssue> {
+    return await this.callTool(this.toolFor("createIssue"), {
+      projectKey: input.projectKey,
+      issueTypeName: input.issueTypeName,
+      summary: input.summary,
+      description: input.description,
+      assignee_account_id: input.assigneeAccountId,
+      parent: input.parent,
+      additional_fields: input.additionalFields
+    });
+  }
+
+  /**
+   * Update fields on an existing Jira issue
+   */
+  async editIssue(issueIdOrKey: string, fields: Partial<JiraIssueFields>): Promise<JiraIssue> {
+    return await this.callTool(this.toolFor("editIssue"), { issueIdOrKey, fields });
+  }
+
+  /**
+   * Move a Jira issue through a workflow transition
+   */
+  async transitionIssue(
+    issueIdOrKey: string,
+    transitionId: string,
+    fields?: Partial<JiraIssueFields>
+  ): Promise<void> {
+    await this.callTool(this.toolFor("transitionIssue"), {
+      issueIdOrKey,
+      transition: { id: transitionId },
+      fields
+    });
+  }
+
+  /**
+   * Add a comment to a Jira issue
+   */
+  async addComment(issueIdOrKey: string, commentBody: string): Promise<JiraComment> {
+    return await this.callTool(this.toolFor("addComment"), { issueIdOrKey, commentBody });
+  }
+
+  /**
+   * List the transitions currently available for a Jira issue
+   */
+  async getTransitions(issueIdOrKey: string): Promise<JiraTransition[]> {
+    const result = await this.callTool(this.toolFor("getTransitions"), { issueIdOrKey });
+    return Array.isArray(result) ? result : result?.transitions ?? [];
+  }
+
+  /**
+   * List the Jira projects visible to the current user
+   */
+  async getProjects(options: JiraProjectOptions = {}): Promise<JiraProject[]> {
+    const result = await this.callTool(this.toolFor("getProjects"), {
+      searchString: options.searchString,
+      action: options.action,
+      maxResults: options.maxResults,
+      expandIssueTypes: options.expandIssueTypes
+    });
+    return Array.isArray(result) ? result : result?.values ?? [];
+  }
+
+  /**
+   * Find Jira users by name or email
+   */
+  async lookupUser(searchString: string): Promise<JiraUser[]> {
+    const result = await this.callTool(this.toolFor("lookupUser"), { searchString });
+    return Array.isArray(result) ? result : result?.users ?? [];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Confluence
+  // ---------------------------------------------------------------------------
+
+  /**
+   * List the Confluence spaces visible to the current user
+   */
+  async listSpaces(options: ConfluenceListSpacesOptions = {}): Promise<ConfluenceSpace[]> {
+    const result = await this.callTool(this.toolFor("listSpaces"), {
+      keys: options.keys,
+      type: options.type,
+      status: options.status,
+      limit: options.limit,
+      cursor: options.cursor
+    });
+    return Array.isArray(result) ? result : result?.results ?? [];
+  }
+
+  /**
+   * Get a single Confluence page by id
+   */
+  async getPage(pageId: string, options: ConfluenceGetPageOptions = {}): Promise<ConfluencePage> {
+    return await this.callTool(this.toolFor("getPage"), {
+      pageId,
+      contentFormat: options.bodyFormat
+    });
+  }
+
+  /**
+   * List the direct children of a Confluence page
+   */
+  async getPageChildren(
+    pageId: string,
+    options: ConfluencePageChildrenOptions = {}
+  ): Promise<ConfluencePage[]> {
+    const result = await this.callTool(this.toolFor("getPageChildren"), {
+      pageId,
+      depth: 1,
+      limit: options.limit,
+      cursor: options.cursor
+    });
+    return Array.isArray(result) ? result : result?.results ?? [];
+  }
+
+  /**
+   * Search Confluence content with CQL (returns a single page)
+   */
+  async searchWithCql(
+    cql: string,
+    options: ConfluenceSearchOptions & ToolCallOptions = {}
+  ): Promise<ConfluenceSearchResult> {
+    const result = await this.callTool(this.toolFor("searchCql"), {
+      cql,
+      limit: options.limit,
+      cursor: options.cursor
+    }, options);
+
+    return {
+      ...result,
+      results: Array.isArray(result?.results) ? result.results : []
+    };
+  }
+
+  /**
+   * Iterate over every result of a CQL search, following pagination lazily
+   */
+  iterateCql(cql: string, options: ConfluenceIterateOptions & ToolCallOptions = {}): AsyncGenerator<ConfluenceSearchHit> {
+    return paginate<ConfluenceSearchHit>(async (cursor, pageSize) => {
+      const result = await this.callTool(this.toolFor("searchCql"), {
+        cql,
+        limit: pageSize,
+        ...(cursor && ("token" in cursor ? { cursor: cursor.token } : { start: cursor.offset }))
+      }, options);
+
+      const hits: ConfluenceSearchHit[] = Array.isArray(result?.results) ? result.results : [];
+      return {
+        items: hits,
+        next: nextCursor(extractCursor(result?._links?.next), result?.start, hits.length, result?.totalSize)
+      };
+    }, options);
+  }
+
+  /**
+   * Create a Confluence page
+   */
+  async createPage(input: ConfluenceCreatePageInput): Promise<ConfluencePage> {
+    return await this.callTool(this.toolFor("createPage"), {
+      spaceId: input.spaceId,
+      title: input.title,
+      body: input.body,
+      parentId: input.parentId,
+      isPrivate: input.isPrivate
+    });
+  }
+
+  /**
+   * Update the title and/or body of a Confluence page
+   */
+  async updatePage(pageId: string, input: ConfluenceUpdatePageInput): Promise<ConfluencePage> {
+    return await this.callTool(this.toolFor("updatePage"), {
+      pageId,
+      body: input.body,
+      title: input.title,
+      versionMessage: input.versionMessage,
+      status: input.status
+    });
+  }
+
+  /**
+   * Add a footer comment to a Confluence page
+   */
+  async addFooterComment(pageId: string, body: string): Promise<ConfluenceComment> {
+    return await this.callTool(this.toolFor("addFooterComment"), { pageId, body });
+  }
+
+  /**
+   * Add the cloudId and validate arguments against the tool's cached inputSchema
+   */
+  private async prepareArguments(
+    toolName: string,
+    parameters: Record<string, any>,
+    cloudId: string | null
+  ): Promise<Record<string, any>> {
+    const tool = this.toolCatalog?.get(toolName);
+    const schema = tool?.inputSchema as JSONSchema | undefined;
+
+    // Add cloudId to parameters if available, not already present and accepted by the tool
+    const finalParameters = { ...parameters };
+    if (cloudId && !finalParameters['cloudId'] && (!schema?.properties || 'cloudId' in schema.properties)) {
+      finalParameters['cloudId'] = cloudId;
+    }
+
+    if (!this.options.validateArguments || !this.toolCatalog) {
+      return finalParameters;
+    }
+
+    if (!tool) {
+      throw new ToolValidationError(toolName, [
+        `unknown tool (available: ${[...this.toolCatalog.keys()].join(', ')})`
+      ]);
+    }
+
+    if (!schema) {
+      return finalParameters;
+    }
+
+    const result = validateAgainstSchema(schema, finalParameters);
+    if (!result.valid) {
+      throw new ToolValidationError(toolName, result.errors);
+    }
+
+    return result.value as Record<string, any>;
+  }
+
+  /**
+   * Check if connected
+   */
+  isConnectedToServer(): boolean {
+    return this.isConnected;
+  }
+
+  /**
+   * Get the cloudId (for debugging)
+   */
+  getCloudId(): string | null {
+    return this.cloudId;
+  }
+
+  /**
+   * How the client reaches the server
+   */
+  getConnectionType(): ConnectionConfig["type"] {
+    return this.connection.type;
+  }
+
+  /**
+   * How the server process is started, for mcp-remote and stdio connections
+   */
+  getStdioLaunch(): StdioLaunchOptions | null {
+    return getStdioLaunch(this.connection);
+  }
+
+  /**
+   * Get the MCP session id (Streamable HTTP connections only)
+   */
+  getSessionId(): string | null {
+    return this.transport?.sessionId ?? null;
+  }
+
+  /**
+   * Get the underlying MCP client (for advanced usage)
+   */
+  getMCPClient(): Client {
+    return this.client;
+  }
+}
+
+/**
+ * Whether a request failed because the connection closed underneath it
+ */
+function isConnectionClosed(error: unknown): boolean {
+  for (let current = error; current instanceof Error; ) {
+    if (current instanceof McpError && current.code === ErrorCode.ConnectionClosed) {
+      return true;
+    }
+    if (current.message === "Not connected") {
+      return true;
+    }
+    current = current instanceof AtlassianMCPError ? current.originalError : undefined;
+  }
+  return false;
+}
+
+/**
+ * Normalize a site URL or name for comparison ("https://Acme.atlassian.net/" -> "acme.atlassian.net")
+ */
+function normalizeSiteSelector(value: string): string {
+  return value.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/\/+$/, "");
+}
+
+/**
+ * Pull the cursor query parameter out of a Confluence "next" link
+ */
+function extractCursor(nextLink: string | undefined): string | null {
+  if (!nextLink) {
+    return null;
+  }
+
+  return new URL(nextLink, "https://placeholder.invalid").searchParams.get("cursor");
 }
 
 export default AtlassianMCPClient;
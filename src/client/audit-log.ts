@@ -0,0 +1,207 @@
+/**
+ * Append-only, hash-chained audit log of write tool calls
+ *
+ * Each JSONL line carries the SHA-256 of the previous line's record, and its
+ * own hash covers every other field, so editing, reordering or deleting lines
+ * breaks verify(). The chain assumes one writer at a time per file.
+ */
+
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface AuditLogOptions {
+  /** JSONL file to append to (default: ATLASSIAN_MCP_AUDIT_LOG or ./.mcp-audit/audit.jsonl) */
+  path?: string;
+}
+
+/** Why a write happened, as supplied by the caller */
+export interface AuditContext {
+  /** The natural-language request the call came from */
+  query?: string;
+  /** The AI's explanation for making the call */
+  reasoning?: string;
+  /** Step number within the query's execution */
+  step?: number;
+}
+
+export interface AuditRecord {
+  sequence: number;
+  timestamp: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  cloudId: string | null;
+  actor: string;
+  query: string | null;
+  reasoning: string | null;
+  step: number | null;
+  outcome: "success" | "error";
+  /** Ids and keys of what the call created or changed */
+  resultIds: string[];
+  error: string | null;
+  previousHash: string;
+  hash: string;
+}
+
+export type AuditEntry = Omit<AuditRecord, "sequence" | "previousHash" | "hash">;
+
+export interface AuditFilter {
+  tool?: string;
+  actor?: string;
+  /** Case-insensitive substring of the originating query */
+  query?: string;
+  since?: Date;
+  until?: Date;
+  outcome?: AuditRecord["outcome"];
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  records: number;
+  /** Sequence number (1-based line) of the first record that does not check out */
+  brokenAt?: number;
+  reason?: string;
+}
+
+const GENESIS_HASH = "0".repeat(64);
+
+export class AuditLog {
+  readonly path: string;
+  private tail: Promise<{ sequence: number; hash: string }> | null = null;
+
+  constructor(options: AuditLogOptions = {}) {
+    this.path = options.path ?? process.env['ATLASSIAN_MCP_AUDIT_LOG'] ?? path.join(".mcp-audit", "audit.jsonl");
+  }
+
+  /**
+   * Chain an entry onto the log; appends are serialized within this process
+   */
+  async append(entry: AuditEntry): Promise<AuditRecord> {
+    const previous = this.tail ?? this.readTail();
+
+    const appended = previous.then(async ({ sequence, hash: previousHash }) => {
+      const unsigned = { sequence: sequence + 1, ...entry, previousHash };
+      const record: AuditRecord = { ...unsigned, hash: hashRecord(unsigned) };
+
+      await fs.mkdir(path.dirname(this.path), { recursive: true });
+      await fs.appendFile(this.path, JSON.stringify(record) + "\n", { encoding: "utf8", mode: 0o600 });
+      return record;
+    });
+
+    // A failed append leaves the chain where it was
+    this.tail = appended.then(
+      record => ({ sequence: record.sequence, hash: record.hash }),
+      () => previous
+    );
+
+    return await appended;
+  }
+
+  /**
+   * Records in file order, optionally filtered
+   */
+  async read(filter: AuditFilter = {}): Promise<AuditRecord[]> {
+    return (await this.readAll()).filter(record => matchesFilter(record, filter));
+  }
+
+  /**
+   * Recompute the chain and report the first record that was altered, removed or reordered
+   */
+  async verify(): Promise<AuditVerification> {
+    let lines: string[];
+    try {
+      lines = await this.readLines();
+    } catch (error) {
+      return { valid: false, records: 0, reason: `Cannot read ${this.path}: ${describe(error)}` };
+    }
+
+    let previousHash = GENESIS_HASH;
+    for (const [index, line] of lines.entries()) {
+      const expectedSequence = index + 1;
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        return { valid: false, records: lines.length, brokenAt: expectedSequence, reason: "line is not valid JSON" };
+      }
+
+      const { hash, ...unsigned } = record;
+      const problem =
+        record.sequence !== expectedSequence ? `expected sequence ${expectedSequence}, found ${record.sequence}` :
+        record.previousHash !== previousHash ? "previousHash does not match the preceding record" :
+        hash !== hashRecord(unsigned) ? "record content does not match its hash" :
+        null;
+
+      if (problem) {
+        return { valid: false, records: lines.length, brokenAt: expectedSequence, reason: problem };
+      }
+      previousHash = hash;
+    }
+
+    return { valid: true, records: lines.length };
+  }
+
+  private async readTail(): Promise<{ sequence: number; hash: string }> {
+    const records = await this.readAll();
+    const last = records[records.length - 1];
+    return last ? { sequence: last.sequence, hash: last.hash } : { sequence: 0, hash: GENESIS_HASH };
+  }
+
+  private async readAll(): Promise<AuditRecord[]> {
+    try {
+      return (await this.readLines()).map(line => JSON.parse(line) as AuditRecord);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async readLines(): Promise<string[]> {
+    const content = await fs.readFile(this.path, "utf8");
+    return content.split("\n").filter(line => line.trim() !== "");
+  }
+}
+
+/**
+ * Ids and keys found at the top level of a tool result, or of the items it lists
+ */
+export function extractResultIds(data: unknown): string[] {
+  const items = Array.isArray(data) ? data : [data];
+  const ids = new Set<string>();
+
+  for (const item of items) {
+    if (!item || typeof item !== "object") {
+      continue;
+    }
+    for (const field of ["key", "id"]) {
+      const value = (item as Record<string, unknown>)[field];
+      if (typeof value === "string" || typeof value === "number") {
+        ids.add(String(value));
+      }
+    }
+  }
+
+  return [...ids];
+}
+
+function hashRecord(record: Omit<AuditRecord, "hash">): string {
+  return crypto.createHash("sha256").update(JSON.stringify(record)).digest("hex");
+}
+
+function matchesFilter(record: AuditRecord, filter: AuditFilter): boolean {
+  const timestamp = new Date(record.timestamp);
+  return (
+    (!filter.tool || record.tool === filter.tool) &&
+    (!filter.actor || record.actor === filter.actor) &&
+    (!filter.query || (record.query ?? "").toLowerCase().includes(filter.query.toLowerCase())) &&
+    (!filter.since || timestamp >= filter.since) &&
+    (!filter.until || timestamp <= filter.until) &&
+    (!filter.outcome || record.outcome === filter.outcome)
+  );
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -9,6 +9,7 @@ import open from 'open';
 import type { AtlassianConfig } from '../../config/atlassian-config.js';
 import type { Logger } from '../../utils/logger.js';
 import { AuthenticationError } from '../../utils/error-handler.js';
+import { TokenStore, type TokenStoreOptions } from './token-store.js';
 
 export interface OAuthTokens {
   access_token: string;
@@ -24,20 +25,31 @@ export interface AuthState {
   expiresAt?: Date;
 }
 
+export interface OAuthProviderOptions {
+  /** Where tokens persist between runs, or false to keep them in memory only */
+  tokenStore?: TokenStoreOptions | false;
+}
+
 /**
  * OAuth 2.1 Provider implementing PKCE flow for Atlassian
  */
 export class AtlassianOAuthProvider {
   private tokens: OAuthTokens | null = null;
+  private expiresAt: number | null = null;
   private codeVerifier: string | null = null;
   private state: string | null = null;
   private server: Server | null = null;
   private authPromise: Promise<OAuthTokens> | null = null;
+  private tokenStore: TokenStore | null;
+  private restored: Promise<void> | null = null;
 
   constructor(
     private config: AtlassianConfig,
-    private logger: Logger
-  ) {}
+    private logger: Logger,
+    options: OAuthProviderOptions = {}
+  ) {
+    this.tokenStore = options.tokenStore === false ? null : new TokenStore(logger, options.tokenStore);
+  }
 
   /**
    * Check if currently authenticated
@@ -46,10 +58,9 @@ export class AtlassianOAuthProvider {
     if (!this.tokens) return false;
     
     // Check if tokens are expired (with 5 minute buffer)
-    if (this.tokens.expires_in) {
-      const expiresAt = new Date(Date.now() + (this.tokens.expires_in * 1000));
+    if (this.expiresAt) {
       const buffer = 5 * 60 * 1000; // 5 minutes
-      return Date.now() < (expiresAt.getTime() - buffer);
+      return Date.now() < (this.expiresAt - buffer);
     }
     
     return true;
@@ -66,11 +77,18 @@ export class AtlassianOAuthProvider {
    * Start the OAuth 2.1 authentication flow
    */
   public async authenticate(): Promise<OAuthTokens> {
+    await this.restoreTokens();
+
     if (this.isAuthenticated() && this.tokens) {
       this.logger.info('Already authenticated, returning existing tokens');
       return this.tokens;
     }
 
+    // Stored tokens that expired are renewed without a browser round trip
+    if (this.tokens?.refresh_token) {
+      return await this.refreshTokens();
+    }
+
     if (this.authPromise) {
       this.logger.info('Authentication in progress, waiting for completion');
       return this.authPromise;
@@ -94,6 +112,8 @@ export class AtlassianOAuthProvider {
    * Refresh tokens if possible
    */
   public async refreshTokens(): Promise<OAuthTokens> {
+    await this.restoreTokens();
+
     if (!this.tokens?.refresh_token) {
       throw new AuthenticationError('No refresh token available');
     }
@@ -119,16 +139,31 @@ export class AtlassianOAuthProvider {
 
       if (!response.ok) {
         const errorText = await response.text();
+        if (errorText.includes('invalid_grant')) {
+          // Revoked, expired or already rotated: the only way back is a new sign-in
+          await this.clearTokens();
+          throw new AuthenticationError(
+            `The saved refresh token${this.tokenStore ? ` for profile "${this.tokenStore.profile}"` : ''} ` +
+            'was revoked or has expired, and has been removed. Connect again to sign in through the browser.'
+          );
+        }
         throw new AuthenticationError(`Token refresh failed: ${errorText}`);
       }
 
       const newTokens = await response.json() as OAuthTokens;
-      this.tokens = newTokens;
+      // Atlassian rotates refresh tokens, but keep the old one if none came back
+      await this.setTokens({
+        ...newTokens,
+        ...(!newTokens.refresh_token && { refresh_token: this.tokens.refresh_token })
+      });
       
       this.logger.info('OAuth tokens refreshed successfully');
-      return newTokens;
+      return this.tokens!;
     } catch (error) {
       this.logger.error('Failed to refresh tokens', error);
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
       throw new AuthenticationError('Token refresh failed', error instanceof Error ? error : undefined);
     }
   }
@@ -157,12 +192,63 @@ export class AtlassianOAuthProvider {
         })
       });
 
-      this.tokens = null;
+      await this.clearTokens();
       this.logger.info('OAuth tokens revoked successfully');
     } catch (error) {
       this.logger.error('Failed to revoke tokens', error);
       // Continue anyway and clear local tokens
-      this.tokens = null;
+      await this.clearTokens();
+    }
+  }
+
+  /**
+   * Load the stored tokens once, before the first use
+   */
+  private restoreTokens(): Promise<void> {
+    this.restored ??= (async () => {
+      const stored = await this.tokenStore?.load();
+      if (!stored || this.tokens) {
+        return;
+      }
+      if (stored.clientId !== this.config.clientId) {
+        this.logger.warn(`Stored tokens for profile "${this.tokenStore!.profile}" belong to another OAuth client, ignoring them`);
+        return;
+      }
+
+      this.tokens = stored.tokens;
+      this.expiresAt = stored.expiresAt;
+      this.logger.info(`Loaded stored OAuth tokens for profile "${this.tokenStore!.profile}"`);
+    })();
+    return this.restored;
+  }
+
+  /**
+   * Keep new tokens and persist them; storage failures cost a sign-in next run, not this one
+   */
+  private async setTokens(tokens: OAuthTokens): Promise<void> {
+    this.tokens = tokens;
+    this.expiresAt = tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : null;
+
+    try {
+      await this.tokenStore?.save({
+        tokens,
+        expiresAt: this.expiresAt,
+        clientId: this.config.clientId,
+        savedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      this.logger.warn('Could not store OAuth tokens', error);
+    }
+  }
+
+  private async clearTokens(): Promise<void> {
+    this.tokens = null;
+    this.expiresAt = null;
+
+    try {
+      await this.tokenStore?.clear();
+    } catch (error) {
+      this.logger.warn('Could not remove stored OAuth tokens', error);
     }
   }
 
@@ -192,7 +278,7 @@ export class AtlassianOAuthProvider {
       // Exchange code for tokens
       const tokens = await this.exchangeCodeForTokens(authCode);
       
-      this.tokens = tokens;
+      await this.setTokens(tokens);
       this.logger.info('Authentication completed successfully');
       
       return tokens;
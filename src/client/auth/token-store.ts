@@ -0,0 +1,144 @@
+/**
+ * Encrypted on-disk storage for OAuth tokens, one file per profile
+ *
+ * Files are AES-256-GCM encrypted with a key derived (scrypt, random salt per
+ * write) from ATLASSIAN_MCP_TOKEN_KEY, or, without one, from the home
+ * directory and host name. The derived key only keeps the file unreadable on
+ * other machines and accounts; set a key to protect it from other programs of
+ * the same user.
+ * The directory is created 0700 and files are written 0600.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Logger } from '../../utils/logger.js';
+import { ConfigurationError } from '../../utils/error-handler.js';
+import type { OAuthTokens } from './oauth-provider.js';
+
+export interface TokenStoreOptions {
+  /** Profile name, e.g. one per Atlassian app or account (default: ATLASSIAN_MCP_PROFILE or "default") */
+  profile?: string;
+  /** Directory of the token files (default: ATLASSIAN_MCP_TOKEN_DIR or ~/.atlassian-mcp/tokens) */
+  directory?: string;
+  /** Secret the encryption key is derived from (default: ATLASSIAN_MCP_TOKEN_KEY, else home directory and host name) */
+  key?: string;
+}
+
+export interface StoredTokens {
+  tokens: OAuthTokens;
+  /** Epoch milliseconds when the access token expires, if known */
+  expiresAt: number | null;
+  /** OAuth client the tokens were issued to */
+  clientId: string;
+  savedAt: string;
+}
+
+interface EncryptedFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const PROFILE_NAME = /^[A-Za-z0-9_.-]+$/;
+
+export class TokenStore {
+  readonly profile: string;
+  readonly path: string;
+  private secret: string;
+
+  constructor(private logger: Logger, options: TokenStoreOptions = {}) {
+    this.profile = options.profile ?? process.env['ATLASSIAN_MCP_PROFILE'] ?? 'default';
+    if (!PROFILE_NAME.test(this.profile)) {
+      throw new ConfigurationError(`Invalid token profile "${this.profile}": use letters, digits, ".", "-" and "_"`);
+    }
+
+    const directory = options.directory
+      ?? process.env['ATLASSIAN_MCP_TOKEN_DIR']
+      ?? path.join(os.homedir(), '.atlassian-mcp', 'tokens');
+    this.path = path.join(directory, `${this.profile}.json`);
+    this.secret = options.key ?? process.env['ATLASSIAN_MCP_TOKEN_KEY'] ?? `${os.homedir()}@${os.hostname()}`;
+  }
+
+  /**
+   * Stored tokens, or null when there are none or they cannot be decrypted
+   */
+  async load(): Promise<StoredTokens | null> {
+    let file: EncryptedFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.path, 'utf8')) as EncryptedFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`Could not read stored tokens at ${this.path}`, error);
+      }
+      return null;
+    }
+
+    await this.restrictPermissions();
+
+    try {
+      const salt = Buffer.from(file.salt, 'base64');
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.deriveKey(salt), Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return JSON.parse(plain.toString('utf8')) as StoredTokens;
+    } catch {
+      this.logger.warn(
+        `Stored tokens for profile "${this.profile}" could not be decrypted (was ATLASSIAN_MCP_TOKEN_KEY changed?); signing in again`
+      );
+      return null;
+    }
+  }
+
+  async save(stored: StoredTokens): Promise<void> {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.deriveKey(salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(stored), 'utf8'), cipher.final()]);
+    const file: EncryptedFile = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    await fs.mkdir(path.dirname(this.path), { recursive: true, mode: 0o700 });
+
+    // Write beside the file and rename, so a crash never leaves half a token file
+    const temporary = `${this.path}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(file), { mode: 0o600 });
+    await fs.rename(temporary, this.path);
+    await this.restrictPermissions();
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.path, { force: true });
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return crypto.scryptSync(this.secret, salt, 32);
+  }
+
+  /**
+   * Tighten files created by hand or by another tool; POSIX modes do not apply on Windows
+   */
+  private async restrictPermissions(): Promise<void> {
+    if (process.platform === 'win32') {
+      return;
+    }
+
+    try {
+      const { mode } = await fs.stat(this.path);
+      if ((mode & 0o077) !== 0) {
+        this.logger.warn(`Token file ${this.path} was readable by other users; restricting it to 0600`);
+        await fs.chmod(this.path, 0o600);
+      }
+    } catch (error) {
+      this.logger.warn(`Could not check the permissions of ${this.path}`, error);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Read-through cache for read-only tool results
+ *
+ * Entries are keyed by tool name, normalized arguments and cloudId, and tagged
+ * with the Jira issues and Confluence pages they describe. A write tool drops
+ * the entries tagged with what it touched, plus every search and listing of
+ * the same product, since those may include the changed item.
+ */
+
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface ResponseCacheOptions {
+  /** How long a cached result stays fresh (default: 5 minutes) */
+  ttlMs?: number;
+  /** Entries kept before the oldest are dropped (default: 500) */
+  maxEntries?: number;
+  /** Also keep entries in responses.json in this directory, e.g. ATLASSIAN_MCP_CACHE_DIR (default: memory only) */
+  directory?: string;
+}
+
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+  invalidations: number;
+  entries: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+}
+
+interface CacheEntry {
+  toolName: string;
+  storedAt: number;
+  tags: string[];
+  /** The raw tools/call result, decoded again on every hit */
+  response: unknown;
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttlMs: number;
+  private maxEntries: number;
+  private filePath: string | null;
+  private loaded: Promise<void> | null = null;
+  private stats = { hits: 0, misses: 0, invalidations: 0 };
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.filePath = options.directory ? path.join(options.directory, "responses.json") : null;
+  }
+
+  /**
+   * Cached response for a call, or undefined on a miss
+   */
+  async get(toolName: string, args: Record<string, unknown>, cloudId: string | null): Promise<unknown> {
+    await this.load();
+
+    const key = cacheKey(toolName, args, cloudId);
+    const entry = this.entries.get(key);
+
+    if (!entry || Date.now() - entry.storedAt > this.ttlMs) {
+      this.entries.delete(key);
+      this.stats.misses++;
+      return undefined;
+    }
+
+    this.stats.hits++;
+    return entry.response;
+  }
+
+  /**
+   * Store the response of a read-only call; `data` is its decoded result, used for tagging
+   */
+  async set(
+    toolName: string,
+    args: Record<string, unknown>,
+    cloudId: string | null,
+    response: unknown,
+    data: unknown
+  ): Promise<void> {
+    await this.load();
+
+    const key = cacheKey(toolName, args, cloudId);
+    this.entries.delete(key);
+    this.entries.set(key, {
+      toolName,
+      storedAt: Date.now(),
+      tags: resourceTags(toolName, args, cloudId, data),
+      response
+    });
+
+    // Maps keep insertion order, so the first entries are the oldest
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+
+    await this.persist();
+  }
+
+  /**
+   * Drop the entries a write tool call may have made out of date
+   */
+  async invalidate(toolName: string, args: Record<string, unknown>, cloudId: string | null): Promise<number> {
+    await this.load();
+
+    const touched = new Set(resourceTags(toolName, args, cloudId, undefined));
+    if (touched.size === 0) {
+      return 0;
+    }
+
+    let dropped = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some(tag => touched.has(tag))) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    }
+
+    if (dropped > 0) {
+      this.stats.invalidations += dropped;
+      await this.persist();
+    }
+    return dropped;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    await this.persist();
+  }
+
+  getStats(): ResponseCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      entries: this.entries.size,
+      hitRate: lookups > 0 ? this.stats.hits / lookups : 0
+    };
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.readFile();
+    return this.loaded;
+  }
+
+  private async readFile(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      const stored: Record<string, CacheEntry> = JSON.parse(await fs.readFile(this.filePath, "utf8"));
+      for (const [key, entry] of Object.entries(stored)) {
+        if (Date.now() - entry.storedAt <= this.ttlMs) {
+          this.entries.set(key, entry);
+        }
+      }
+    } catch {
+      // No cache file yet, or an unreadable one that the next write replaces
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(this.filePath, JSON.stringify(Object.fromEntries(this.entries)), "utf8");
+  }
+}
+
+/**
+ * Key for a call; argument order and the cloudId argument itself do not matter
+ */
+function cacheKey(toolName: string, args: Record<string, unknown>, cloudId: string | null): string {
+  const { cloudId: _ignored, ...rest } = args;
+  const normalized = JSON.stringify([toolName, cloudId, normalize(rest)]);
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Sort object keys recursively and drop undefined values
+ */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, item]) => [key, normalize(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Tags for the issues and pages a call is about. Calls that name no single
+ * item (searches, listings, creates) are tagged with the product, so any write
+ * to that product drops them.
+ */
+function resourceTags(
+  toolName: string,
+  args: Record<string, unknown>,
+  cloudId: string | null,
+  data: unknown
+): string[] {
+  const product = /jira/i.test(toolName) ? "jira" : /confluence/i.test(toolName) ? "confluence" : null;
+  if (!product) {
+    return [];
+  }
+
+  const site = cloudId ?? "default";
+  const tags = [`${site}:${product}`];
+  const ids = [args["issueIdOrKey"], args["pageId"], args["parentId"]];
+
+  // Issues and pages can be addressed by id or key; a fetched one is tagged with both
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    const item = data as Record<string, unknown>;
+    ids.push(item["id"], item["key"]);
+  }
+
+  for (const id of ids) {
+    if (typeof id === "string" || typeof id === "number") {
+      tags.push(`${site}:${product}:${String(id).toUpperCase()}`);
+    }
+  }
+
+  // Reads of a single item only go stale when that item changes
+  const isSingleItemRead = tags.length > 1 && data !== undefined;
+  return isSingleItemRead ? tags.slice(1) : tags;
+}
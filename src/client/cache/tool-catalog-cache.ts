@@ -0,0 +1,109 @@
+/**
+ * On-disk cache of the tools/list catalog
+ *
+ * Each server URL and site combination gets its own JSON file so the CLIs can
+ * show tools and build AI prompts without spawning mcp-remote every time.
+ */
+
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export interface ToolCatalogCacheOptions {
+  /** Directory for cache files (default: ATLASSIAN_MCP_CACHE_DIR or ./.mcp-cache) */
+  directory?: string;
+  /** How long a cached catalog counts as fresh (default: 24 hours) */
+  ttlMs?: number;
+}
+
+export interface ToolCatalogEntry {
+  serverUrl: string;
+  site: string;
+  fetchedAt: string;
+  serverVersion: { name: string; version: string } | null;
+  tools: Tool[];
+}
+
+export interface ToolCatalogDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class ToolCatalogCache {
+  private directory: string;
+  private ttlMs: number;
+
+  constructor(options: ToolCatalogCacheOptions = {}) {
+    this.directory = options.directory ?? process.env['ATLASSIAN_MCP_CACHE_DIR'] ?? ".mcp-cache";
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  /**
+   * Load the cached catalog; stale entries are only returned with allowStale
+   */
+  async load(serverUrl: string, site: string, allowStale = false): Promise<ToolCatalogEntry | null> {
+    let entry: ToolCatalogEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(this.getFilePath(serverUrl, site), "utf8"));
+    } catch {
+      return null;
+    }
+
+    if (!allowStale && this.isStale(entry)) {
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Write a freshly fetched catalog and return what changed since the previous one
+   */
+  async save(entry: ToolCatalogEntry): Promise<ToolCatalogDiff | null> {
+    const previous = await this.load(entry.serverUrl, entry.site, true);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.getFilePath(entry.serverUrl, entry.site), JSON.stringify(entry, null, 2), "utf8");
+
+    return previous ? diffToolCatalogs(previous.tools, entry.tools) : null;
+  }
+
+  isStale(entry: ToolCatalogEntry): boolean {
+    return Date.now() - new Date(entry.fetchedAt).getTime() > this.ttlMs;
+  }
+
+  getFilePath(serverUrl: string, site: string): string {
+    const key = crypto.createHash("sha256").update(`${serverUrl}\n${site}`).digest("hex").slice(0, 16);
+    return path.join(this.directory, `tools-${key}.json`);
+  }
+}
+
+/**
+ * Compare two catalogs by tool name, description and input schema
+ */
+export function diffToolCatalogs(previous: Tool[], current: Tool[]): ToolCatalogDiff {
+  const before = new Map(previous.map(tool => [tool.name, tool]));
+  const after = new Map(current.map(tool => [tool.name, tool]));
+
+  const added = [...after.keys()].filter(name => !before.has(name));
+  const removed = [...before.keys()].filter(name => !after.has(name));
+  const changed = [...after.entries()]
+    .filter(([name, tool]) => {
+      const old = before.get(name);
+      return old !== undefined && (
+        old.description !== tool.description ||
+        JSON.stringify(old.inputSchema) !== JSON.stringify(tool.inputSchema)
+      );
+    })
+    .map(([name]) => name);
+
+  return { added, removed, changed };
+}
+
+export function isEmptyDiff(diff: ToolCatalogDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
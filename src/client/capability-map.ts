@@ -0,0 +1,196 @@
+/**
+ * Capability map for the typed client methods
+ *
+ * Each typed method performs a logical operation ("getIssue", "searchCql").
+ * The map lists the tool names a server may expose for it, and is checked
+ * against tools/list by exact name, so a renamed or duplicated tool fails at
+ * connect instead of at the first call.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { CapabilityError, ConfigurationError } from "../utils/error-handler.js";
+
+export const ATLASSIAN_OPERATIONS = [
+  "getAccessibleResources",
+  "getCurrentUser",
+  "getIssue",
+  "searchIssues",
+  "createIssue",
+  "editIssue",
+  "transitionIssue",
+  "addComment",
+  "getTransitions",
+  "getProjects",
+  "lookupUser",
+  "listSpaces",
+  "getPage",
+  "getPageChildren",
+  "searchCql",
+  "createPage",
+  "updatePage",
+  "addFooterComment"
+] as const;
+
+export type AtlassianOperation = typeof ATLASSIAN_OPERATIONS[number];
+
+/** Candidate tool names per operation; at most one of them may exist on the server */
+export type CapabilityMap = Record<AtlassianOperation, string[]>;
+
+/** Tool names of the Atlassian Remote MCP Server */
+export const DEFAULT_CAPABILITY_MAP: CapabilityMap = {
+  getAccessibleResources: ["getAccessibleAtlassianResources"],
+  getCurrentUser: ["atlassianUserInfo"],
+  getIssue: ["getJiraIssue"],
+  searchIssues: ["searchJiraIssuesUsingJql"],
+  createIssue: ["createJiraIssue"],
+  editIssue: ["editJiraIssue"],
+  transitionIssue: ["transitionJiraIssue"],
+  addComment: ["addCommentToJiraIssue"],
+  getTransitions: ["getTransitionsForJiraIssue"],
+  getProjects: ["getVisibleJiraProjects"],
+  lookupUser: ["lookupJiraAccountId"],
+  listSpaces: ["getConfluenceSpaces"],
+  getPage: ["getConfluencePage"],
+  getPageChildren: ["getConfluencePageDescendants"],
+  searchCql: ["searchConfluenceUsingCql"],
+  createPage: ["createConfluencePage"],
+  updatePage: ["updateConfluencePage"],
+  addFooterComment: ["createConfluenceFooterComment"]
+};
+
+export interface CapabilityReport {
+  /** Tool used for each operation the server supports */
+  supported: Partial<Record<AtlassianOperation, string>>;
+  /** Operations none of whose candidates the server exposes */
+  missing: AtlassianOperation[];
+  /** Operations with more than one candidate on the server */
+  ambiguous: Array<{ operation: AtlassianOperation; tools: string[] }>;
+}
+
+/**
+ * Overrides replace the defaults of the operations they name
+ */
+export function mergeCapabilityMap(overrides: Partial<CapabilityMap> = {}): CapabilityMap {
+  const map = { ...DEFAULT_CAPABILITY_MAP };
+
+  for (const [operation, candidates] of Object.entries(overrides)) {
+    if (!isOperation(operation)) {
+      throw new ConfigurationError(
+        `Unknown operation "${operation}" in the capability map. Known operations: ${ATLASSIAN_OPERATIONS.join(", ")}`
+      );
+    }
+    if (!candidates || candidates.length === 0) {
+      throw new ConfigurationError(`No tool names given for operation "${operation}" in the capability map`);
+    }
+    map[operation] = candidates;
+  }
+
+  return map;
+}
+
+/**
+ * Capability map overrides from ATLASSIAN_TOOL_ALIASES, e.g.
+ * "getIssue=getJiraIssue|jira_get_issue,searchIssues=jira_search"
+ */
+export function capabilityMapFromEnv(): Partial<CapabilityMap> {
+  const overrides: Partial<CapabilityMap> = {};
+
+  for (const entry of (process.env["ATLASSIAN_TOOL_ALIASES"] ?? "").split(",")) {
+    const [operation, tools] = entry.split("=").map(part => part.trim());
+    if (!operation) {
+      continue;
+    }
+    if (!isOperation(operation)) {
+      throw new ConfigurationError(`Unknown operation "${operation}" in ATLASSIAN_TOOL_ALIASES`);
+    }
+
+    const candidates = (tools ?? "").split("|").map(name => name.trim()).filter(Boolean);
+    if (candidates.length === 0) {
+      throw new ConfigurationError(`No tool names given for ${operation} in ATLASSIAN_TOOL_ALIASES`);
+    }
+    overrides[operation] = candidates;
+  }
+
+  return overrides;
+}
+
+/**
+ * Match every operation's candidates against the server's tools
+ */
+export function resolveCapabilities(map: CapabilityMap, tools: Tool[]): CapabilityReport {
+  const available = new Set(tools.map(tool => tool.name));
+  const report: CapabilityReport = { supported: {}, missing: [], ambiguous: [] };
+
+  for (const operation of ATLASSIAN_OPERATIONS) {
+    const matches = [...new Set(map[operation])].filter(name => available.has(name));
+    const [tool] = matches;
+
+    if (matches.length > 1) {
+      report.ambiguous.push({ operation, tools: matches });
+    } else if (tool) {
+      report.supported[operation] = tool;
+    } else {
+      report.missing.push(operation);
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Throw when any operation is ambiguous or a required one is missing
+ */
+export function assertCapabilities(
+  report: CapabilityReport,
+  map: CapabilityMap,
+  required: readonly AtlassianOperation[]
+): void {
+  const [ambiguous] = report.ambiguous;
+  if (ambiguous) {
+    throw ambiguousError(ambiguous.operation, ambiguous.tools);
+  }
+
+  const missing = required.find(operation => report.missing.includes(operation));
+  if (missing) {
+    throw missingError(missing, map[missing]);
+  }
+}
+
+/**
+ * Tool to call for an operation, or the CapabilityError explaining why there is none
+ */
+export function toolForOperation(
+  report: CapabilityReport,
+  map: CapabilityMap,
+  operation: AtlassianOperation
+): string {
+  const tool = report.supported[operation];
+  if (tool) {
+    return tool;
+  }
+
+  const ambiguous = report.ambiguous.find(entry => entry.operation === operation);
+  throw ambiguous ? ambiguousError(operation, ambiguous.tools) : missingError(operation, map[operation]);
+}
+
+function ambiguousError(operation: AtlassianOperation, tools: string[]): CapabilityError {
+  return new CapabilityError(
+    operation,
+    tools,
+    `Operation ${operation} is ambiguous: the server exposes ${tools.join(", ")}. ` +
+    `Keep one of them in the capability map (ATLASSIAN_TOOL_ALIASES or the "capabilities" option)`
+  );
+}
+
+function missingError(operation: AtlassianOperation, candidates: string[]): CapabilityError {
+  return new CapabilityError(
+    operation,
+    candidates,
+    `Operation ${operation} is not supported by this server (looked for: ${candidates.join(", ")}). ` +
+    `Map it to the server's tool with ATLASSIAN_TOOL_ALIASES or the "capabilities" option`
+  );
+}
+
+function isOperation(name: string): name is AtlassianOperation {
+  return (ATLASSIAN_OPERATIONS as readonly string[]).includes(name);
+}
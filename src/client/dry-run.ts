@@ -0,0 +1,148 @@
+/**
+ * Dry-run support for write tools
+ *
+ * In dry-run mode the client validates write tool calls as usual, then answers
+ * them with a plausible stub instead of sending them, and reports a preview of
+ * what the call would have changed.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export interface DryRunChange {
+  field: string;
+  /** Current value, when it could be read (edits and updates only) */
+  before?: unknown;
+  after: unknown;
+}
+
+export interface DryRunPreview {
+  toolName: string;
+  action: "create" | "update";
+  /** Issue or page the call targets; undefined for creates */
+  target: string | undefined;
+  changes: DryRunChange[];
+}
+
+/** Write tools of the Atlassian MCP server, and the argument naming their target */
+const WRITE_TOOL_TARGETS: Record<string, string | null> = {
+  createJiraIssue: null,
+  editJiraIssue: "issueIdOrKey",
+  transitionJiraIssue: "issueIdOrKey",
+  addCommentToJiraIssue: "issueIdOrKey",
+  createConfluencePage: null,
+  updateConfluencePage: "pageId",
+  createConfluenceFooterComment: "pageId",
+  createConfluenceInlineComment: "pageId"
+};
+
+/** Write verbs in camelCase, snake_case or kebab-case names: createPage, create_issue, delete-file */
+const WRITE_TOOL_NAME = /^(create|edit|update|transition|add|delete|remove|move|assign)([A-Z]|[_-][a-z])/;
+
+/** Arguments that address the call rather than change anything */
+const ADDRESSING_ARGUMENTS = new Set(["cloudId", "issueIdOrKey", "pageId"]);
+
+export interface WriteToolOptions {
+  /** Treat every tool not annotated read-only as a write, for servers whose tool names mean nothing to us */
+  failClosed?: boolean;
+}
+
+/**
+ * Whether a tool changes data; read-only annotations win over the name
+ */
+export function isWriteTool(toolName: string, tool: Tool | undefined, options: WriteToolOptions = {}): boolean {
+  const annotations = tool?.annotations;
+  if (annotations?.readOnlyHint === true) {
+    return false;
+  }
+  if (annotations?.readOnlyHint === false || annotations?.destructiveHint === true || options.failClosed) {
+    return true;
+  }
+  return toolName in WRITE_TOOL_TARGETS || WRITE_TOOL_NAME.test(toolName);
+}
+
+/**
+ * Describe a write call; `current` is the targeted issue or page as it is now, if known
+ */
+export function buildDryRunPreview(
+  toolName: string,
+  args: Record<string, unknown>,
+  current?: Record<string, unknown>
+): DryRunPreview {
+  const targetArgument = getTargetArgument(toolName);
+  const target = targetArgument ? args[targetArgument] : undefined;
+
+  // Jira edits nest the changed fields under `fields`
+  const changed = isRecord(args["fields"]) ? { ...args, ...args["fields"] } : args;
+  const currentFields = isRecord(current?.["fields"]) ? { ...current, ...current["fields"] } : current;
+
+  const changes: DryRunChange[] = Object.entries(changed)
+    .filter(([field]) => !ADDRESSING_ARGUMENTS.has(field) && !(field === "fields" && isRecord(args["fields"])))
+    .map(([field, after]) => ({
+      field,
+      after,
+      ...(currentFields && field in currentFields && { before: currentFields[field] })
+    }));
+
+  return {
+    toolName,
+    action: target === undefined ? "create" : "update",
+    target: target === undefined ? undefined : String(target),
+    changes
+  };
+}
+
+/**
+ * Name of the argument holding the issue or page a write tool targets
+ */
+export function getTargetArgument(toolName: string): string | null {
+  return WRITE_TOOL_TARGETS[toolName] ?? null;
+}
+
+/**
+ * Read call that fetches what an edit or update would change, for the preview's before values
+ */
+export function getCurrentStateLookup(
+  toolName: string,
+  args: Record<string, unknown>
+): { toolName: string; args: Record<string, unknown> } | null {
+  switch (toolName) {
+    case "editJiraIssue":
+    case "transitionJiraIssue":
+      return { toolName: "getJiraIssue", args: { issueIdOrKey: args["issueIdOrKey"] } };
+    case "updateConfluencePage":
+      return { toolName: "getConfluencePage", args: { pageId: args["pageId"] } };
+    default:
+      return null;
+  }
+}
+
+/**
+ * A result shaped like the real tool's, so an agent loop can carry on
+ */
+export function createDryRunResult(toolName: string, args: Record<string, unknown>, sequence: number): unknown {
+  const id = `dry-run-${sequence}`;
+  const now = new Date().toISOString();
+
+  switch (toolName) {
+    case "createJiraIssue":
+      return { id, key: `${String(args["projectKey"] ?? "DRY")}-DRYRUN${sequence}`, self: "", dryRun: true };
+    case "editJiraIssue":
+    case "transitionJiraIssue":
+      return { dryRun: true, issueIdOrKey: args["issueIdOrKey"] };
+    case "addCommentToJiraIssue":
+      return { id, body: args["commentBody"], created: now, dryRun: true };
+    case "createConfluencePage":
+      return { id, title: args["title"], spaceId: args["spaceId"], status: "current", dryRun: true };
+    case "updateConfluencePage":
+      return { id: args["pageId"], title: args["title"], status: "current", dryRun: true };
+    case "createConfluenceFooterComment":
+    case "createConfluenceInlineComment":
+      return { id, pageId: args["pageId"], body: args["body"], dryRun: true };
+    default:
+      return { dryRun: true, toolName, arguments: args };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
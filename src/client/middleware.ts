@@ -0,0 +1,100 @@
+/**
+ * Middleware around tool calls
+ *
+ * Middleware registered with client.use() wraps every callTool in order:
+ * `before` hooks run first to last, `after` and `error` hooks last to first.
+ * A `before` hook can return a result to skip the server call, an `after`
+ * hook can replace the result, and an `error` hook can recover from a
+ * failure by returning a result.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolCallOptions } from "./atlassian-mcp-client.js";
+import type { DecodedToolResult } from "./result-decoder.js";
+import type { Logger } from "../utils/logger.js";
+
+export interface ToolCallContext {
+  readonly toolName: string;
+  /** Arguments as passed by the caller; before hooks may rewrite them */
+  args: Record<string, any>;
+  /** The tool's tools/list entry, when the catalog is loaded */
+  readonly tool: Tool | undefined;
+  /** Site the call goes to; before hooks may change it */
+  cloudId: string | null;
+  readonly options: ToolCallOptions;
+  /** Scratch space shared by all middleware for this call */
+  readonly state: Record<string, unknown>;
+  readonly startedAt: number;
+}
+
+type HookResult = DecodedToolResult | void | Promise<DecodedToolResult | void>;
+
+export interface ToolCallMiddleware {
+  /** Shown in logs and errors */
+  name?: string;
+  /** Runs before the call; return a result to answer the call without reaching the server */
+  before?(context: ToolCallContext): HookResult;
+  /** Runs with the result, including results from before hooks; return a result to replace it */
+  after?(context: ToolCallContext, result: DecodedToolResult): HookResult;
+  /** Runs when the call or a later hook fails; return a result to recover, otherwise the error propagates */
+  error?(context: ToolCallContext, error: unknown): HookResult;
+}
+
+/**
+ * Run the middleware chain around `call`
+ */
+export async function runMiddleware(
+  middleware: readonly ToolCallMiddleware[],
+  context: ToolCallContext,
+  call: (context: ToolCallContext) => Promise<DecodedToolResult>
+): Promise<DecodedToolResult> {
+  const dispatch = async (index: number): Promise<DecodedToolResult> => {
+    const current = middleware[index];
+    if (!current) {
+      return await call(context);
+    }
+
+    let result: DecodedToolResult;
+    try {
+      result = (await current.before?.(context)) ?? await dispatch(index + 1);
+    } catch (error) {
+      const recovered = await current.error?.(context, error);
+      if (!recovered) {
+        throw error;
+      }
+      return recovered;
+    }
+
+    return (await current.after?.(context, result)) ?? result;
+  };
+
+  return await dispatch(0);
+}
+
+/**
+ * Result for a before or error hook to return instead of calling the server
+ */
+export function syntheticResult(data: unknown): DecodedToolResult {
+  return { data, attachments: [], resourceLinks: [], raw: null };
+}
+
+/**
+ * Logs each tool call with its duration and outcome
+ */
+export function loggingMiddleware(logger: Logger): ToolCallMiddleware {
+  return {
+    name: "logging",
+    before: context => {
+      logger.info(`Calling ${context.toolName}`, { args: context.args });
+    },
+    after: context => {
+      logger.info(`${context.toolName} succeeded`, { durationMs: Date.now() - context.startedAt });
+    },
+    error: (context, error) => {
+      logger.warn(`${context.toolName} failed`, {
+        durationMs: Date.now() - context.startedAt,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Several MCP servers behind one tool catalog
+ *
+ * Reads the standard `mcpServers` config (as in mcp.json), runs an
+ * AtlassianMCPClient per server and merges their tools under the server's
+ * name: "atlassian.getJiraIssue", "github.search_issues". Calls are routed by
+ * that prefix, so a planner can mix tools from every server in one session.
+ */
+
+import { readFileSync } from "fs";
+import EventEmitter from "events";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { AtlassianMCPClient, type AtlassianMCPClientOptions, type ToolCallOptions } from "./atlassian-mcp-client.js";
+import { AuditLog } from "./audit-log.js";
+import type { ConnectionConfig, HttpProtocol } from "./transport/transport-factory.js";
+import { ConfigurationError, ConnectionError, ToolValidationError } from "../utils/error-handler.js";
+
+/** Separates the server name from the tool name in the merged catalog */
+export const NAMESPACE_SEPARATOR = ".";
+
+const SERVER_NAME = /^[A-Za-z0-9_-]+$/;
+
+export interface MultiServerClientOptions {
+  /** Servers to start a client for, by name */
+  servers?: Record<string, ConnectionConfig>;
+  /** Clients created by the caller, used as-is; a server of the same name is skipped */
+  clients?: Record<string, AtlassianMCPClient>;
+  /**
+   * Options for the clients started for `servers` (default: no record/replay
+   * fixture, and the audit log of the first given client that has one)
+   */
+  clientOptions?: Omit<AtlassianMCPClientOptions, "connection">;
+}
+
+export interface ServerFailure {
+  server: string;
+  error: unknown;
+}
+
+/**
+ * Connections for the `mcpServers` of an mcp.json-style file. Entries with a
+ * command are stdio servers, entries with a url are endpoints (`type` "sse" or
+ * "http"); "${VAR}" in strings is replaced from the environment
+ */
+export function loadMcpServersConfig(path: string): Record<string, ConnectionConfig> {
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new ConfigurationError(`Could not read MCP servers config ${path}`, error as Error);
+  }
+
+  const servers = isObject(config) ? config["mcpServers"] : undefined;
+  if (!isObject(servers)) {
+    throw new ConfigurationError(`${path} has no "mcpServers" object`);
+  }
+
+  const connections: Record<string, ConnectionConfig> = {};
+  for (const [name, entry] of Object.entries(servers)) {
+    if (!isObject(entry)) {
+      throw new ConfigurationError(`Server "${name}" in ${path} is not an object`);
+    }
+    if (entry["disabled"] === true) {
+      continue;
+    }
+    connections[name] = toConnection(name, expandEnv(entry) as Record<string, unknown>, path);
+  }
+
+  return connections;
+}
+
+export class MultiServerClient extends EventEmitter {
+  private clients = new Map<string, AtlassianMCPClient>();
+  private connected = new Set<string>();
+  private catalogs = new Map<string, Tool[]>();
+
+  constructor(options: MultiServerClientOptions = {}) {
+    super();
+
+    for (const [name, client] of Object.entries(options.clients ?? {})) {
+      this.addClient(name, client);
+    }
+
+    // Every client writes through one AuditLog: the hash chain allows one writer per file
+    const auditLog = sharedAuditLog(options);
+    for (const [name, connection] of Object.entries(options.servers ?? {})) {
+      if (!this.clients.has(name)) {
+        this.addClient(name, new AtlassianMCPClient({ fixture: false, ...options.clientOptions, auditLog, connection }));
+      }
+    }
+
+    if (this.clients.size === 0) {
+      throw new ConfigurationError("No MCP servers configured");
+    }
+  }
+
+  /**
+   * Client for every server in an mcp.json-style file
+   */
+  static fromConfigFile(path: string, options: Omit<MultiServerClientOptions, "servers"> = {}): MultiServerClient {
+    return new MultiServerClient({ ...options, servers: loadMcpServersConfig(path) });
+  }
+
+  /**
+   * Connect to every server; servers that fail are reported with "serverFailed"
+   * and left out, and only a failure of all of them is an error
+   */
+  async connect(): Promise<void> {
+    const failures: ServerFailure[] = [];
+    await Promise.all([...this.clients].map(async ([server, client]) => {
+      try {
+        await client.connect();
+        this.connected.add(server);
+      } catch (error) {
+        failures.push({ server, error });
+      }
+    }));
+    failures.forEach(failure => this.emit("serverFailed", failure));
+
+    if (this.connected.size === 0) {
+      const reasons = failures
+        .map(({ server, error }) => `${server}: ${error instanceof Error ? error.message : String(error)}`)
+        .join("; ");
+      throw new ConnectionError(`Could not connect to any MCP server (${reasons})`);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await Promise.all([...this.clients.values()].map(client => client.disconnect()));
+    this.connected.clear();
+    this.catalogs.clear();
+  }
+
+  /**
+   * Tools of every connected server, named "<server>.<tool>"
+   */
+  async listTools(): Promise<Tool[]> {
+    await Promise.all(this.getConnectedServers().map(async name => {
+      this.catalogs.set(name, await this.clients.get(name)!.listTools());
+    }));
+    return this.getMergedCatalog();
+  }
+
+  /**
+   * Call "<server>.<tool>"; a bare tool name works when only one server has it
+   */
+  async callTool(name: string, parameters: Record<string, any>, options: ToolCallOptions = {}): Promise<any> {
+    const { server, toolName } = this.resolveToolName(name);
+    return await this.clients.get(server)!.callTool(toolName, parameters, options);
+  }
+
+  /**
+   * Client of one server, e.g. to use its typed Jira and Confluence methods
+   */
+  getClient(server: string): AtlassianMCPClient | null {
+    return this.clients.get(server) ?? null;
+  }
+
+  getClients(): AtlassianMCPClient[] {
+    return [...this.clients.values()];
+  }
+
+  /**
+   * Names of the servers that are connected, in config order
+   */
+  getConnectedServers(): string[] {
+    return [...this.clients.keys()].filter(server => this.connected.has(server));
+  }
+
+  private addClient(name: string, client: AtlassianMCPClient): void {
+    if (!SERVER_NAME.test(name)) {
+      throw new ConfigurationError(
+        `MCP server name "${name}" may only contain letters, digits, "-" and "_"`
+      );
+    }
+
+    this.clients.set(name, client);
+    client.on("toolListChanged", (tools: Tool[]) => {
+      this.catalogs.set(name, tools);
+      this.emit("toolListChanged", this.getMergedCatalog());
+    });
+  }
+
+  private getMergedCatalog(): Tool[] {
+    return this.getConnectedServers().flatMap(server =>
+      (this.catalogs.get(server) ?? []).map(tool => ({ ...tool, name: `${server}${NAMESPACE_SEPARATOR}${tool.name}` }))
+    );
+  }
+
+  private resolveToolName(name: string): { server: string; toolName: string } {
+    const separator = name.indexOf(NAMESPACE_SEPARATOR);
+    if (separator !== -1 && this.connected.has(name.slice(0, separator))) {
+      return { server: name.slice(0, separator), toolName: name.slice(separator + 1) };
+    }
+
+    const owners = this.getConnectedServers().filter(server => this.catalogs.get(server)?.some(tool => tool.name === name));
+    const [owner] = owners;
+    if (owners.length === 1 && owner) {
+      return { server: owner, toolName: name };
+    }
+
+    const issue = owners.length > 1
+      ? `ambiguous tool, use one of ${owners.map(server => `${server}${NAMESPACE_SEPARATOR}${name}`).join(", ")}`
+      : `unknown tool; names are "<server>${NAMESPACE_SEPARATOR}<tool>" with servers ${this.getConnectedServers().join(", ")}`;
+    throw new ToolValidationError(name, [issue]);
+  }
+}
+
+function sharedAuditLog(options: MultiServerClientOptions): AuditLog | false {
+  const configured = options.clientOptions?.auditLog;
+  if (configured === false || configured instanceof AuditLog) {
+    return configured;
+  }
+  if (configured === undefined) {
+    const existing = Object.values(options.clients ?? {}).map(client => client.getAuditLog()).find(log => log !== null);
+    if (existing) {
+      return existing;
+    }
+  }
+  return new AuditLog(configured);
+}
+
+function toConnection(name: string, entry: Record<string, unknown>, path: string): ConnectionConfig {
+  const { command, args, env, cwd, url, headers, type } = entry;
+
+  if (typeof command === "string") {
+    return {
+      type: "stdio",
+      command,
+      ...(isStringArray(args) && { args }),
+      ...(isStringRecord(env) && { env }),
+      ...(typeof cwd === "string" && { cwd })
+    };
+  }
+
+  if (typeof url === "string") {
+    const protocols: Record<string, HttpProtocol> = { sse: "sse", http: "streamable-http", "streamable-http": "streamable-http" };
+    const protocol = typeof type === "string" ? protocols[type] : "auto";
+    if (!protocol) {
+      throw new ConfigurationError(`Server "${name}" in ${path} has unknown type "${String(type)}"; expected sse or http`);
+    }
+    return {
+      type: "endpoint",
+      url,
+      protocol,
+      ...(isStringRecord(headers) && { headers })
+    };
+  }
+
+  throw new ConfigurationError(`Server "${name}" in ${path} needs a "command" or a "url"`);
+}
+
+function expandEnv(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{(\w+)\}/g, (_match, variable: string) => process.env[variable] ?? "");
+  }
+  if (Array.isArray(value)) {
+    return value.map(expandEnv);
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, expandEnv(entry)]));
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isObject(value) && Object.values(value).every(item => typeof item === "string");
+}
@@ -0,0 +1,78 @@
+/**
+ * Pagination helpers for search tools
+ *
+ * Atlassian search tools page either by offset (startAt/start + total) or by
+ * an opaque token (nextPageToken/cursor). Page fetchers translate the tool
+ * response into a Page and `paginate` turns that into an async iterator that
+ * only requests the next page once the consumer has drained the current one.
+ */
+
+export type PageCursor = { token: string } | { offset: number };
+
+export interface Page<T> {
+  items: T[];
+  /** Cursor for the next page, or null when this is the last page */
+  next: PageCursor | null;
+}
+
+export interface PaginateOptions {
+  /** Items requested per page (default: 50) */
+  pageSize?: number;
+  /** Stop after yielding this many items overall */
+  limit?: number;
+}
+
+export type PageFetcher<T> = (cursor: PageCursor | null, pageSize: number) => Promise<Page<T>>;
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Iterate every item across pages, fetching lazily
+ */
+export async function* paginate<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): AsyncGenerator<T> {
+  const limit = options.limit ?? Infinity;
+  let cursor: PageCursor | null = null;
+  let yielded = 0;
+
+  while (yielded < limit) {
+    const pageSize = Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, limit - yielded);
+    const page: Page<T> = await fetchPage(cursor, pageSize);
+
+    for (const item of page.items) {
+      yield item;
+      if (++yielded >= limit) {
+        return;
+      }
+    }
+
+    if (!page.next || page.items.length === 0) {
+      return;
+    }
+    cursor = page.next;
+  }
+}
+
+/**
+ * Work out the next cursor from a token and/or offset style response
+ */
+export function nextCursor(
+  token: string | null | undefined,
+  offset: number | undefined,
+  received: number,
+  total: number | undefined,
+  isLast?: boolean
+): PageCursor | null {
+  if (isLast) {
+    return null;
+  }
+
+  if (token) {
+    return { token };
+  }
+
+  if (offset !== undefined && total !== undefined && offset + received < total) {
+    return { offset: offset + received };
+  }
+
+  return null;
+}
@@ -0,0 +1,167 @@
+/**
+ * Client-side rate limiting for tool calls
+ *
+ * A token bucket refilled at maxRequestsPerHour holds up to `burst` tokens;
+ * each call takes its tool's weight in tokens, and at most maxConcurrent calls
+ * run at once. Calls queue in FIFO order, and a call whose estimated wait is
+ * longer than maxWaitMs fails with RateLimitError instead of queueing.
+ */
+
+import type { RateLimitConfig } from "../config/atlassian-config.js";
+import { RateLimitError, RequestCancelledError } from "../utils/error-handler.js";
+
+export type RateLimiterOptions = Pick<
+  RateLimitConfig,
+  "maxRequestsPerHour" | "burst" | "maxConcurrent" | "maxWaitMs" | "toolWeights"
+>;
+
+export interface RateLimitWait {
+  toolName: string;
+  /** Estimated time until the call can start */
+  waitMs: number;
+  /** Calls queued ahead of this one */
+  position: number;
+}
+
+export interface AcquireOptions {
+  signal?: AbortSignal;
+  /** Called once when the call has to queue */
+  onWait?: (wait: RateLimitWait) => void;
+}
+
+interface Waiter {
+  toolName: string;
+  weight: number;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private queue: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private refillPerMs: number;
+
+  constructor(private options: RateLimiterOptions) {
+    this.tokens = options.burst;
+    this.refillPerMs = options.maxRequestsPerHour / (60 * 60 * 1000);
+  }
+
+  /**
+   * Wait for a slot for one call of a tool; the returned function frees the concurrency slot
+   */
+  async acquire(toolName: string, options: AcquireOptions = {}): Promise<() => void> {
+    options.signal?.throwIfAborted();
+
+    const weight = this.getWeight(toolName);
+    this.refill();
+
+    if (this.queue.length === 0 && this.active < this.options.maxConcurrent && this.tokens >= weight) {
+      this.tokens -= weight;
+      this.active++;
+      return this.createRelease();
+    }
+
+    const waitMs = this.estimateWait(weight);
+    if (waitMs > this.options.maxWaitMs) {
+      throw new RateLimitError(
+        `Client rate limit reached: ${toolName} would wait ${(waitMs / 1000).toFixed(1)}s ` +
+        `(limit ${this.options.maxRequestsPerHour} requests/hour, max wait ${(this.options.maxWaitMs / 1000).toFixed(1)}s)`,
+        Math.ceil(waitMs / 1000)
+      );
+    }
+
+    options.onWait?.({ toolName, waitMs, position: this.queue.length });
+
+    return await new Promise<() => void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== waiter);
+        reject(new RequestCancelledError(`${toolName} was cancelled while waiting for the rate limiter`));
+        this.schedule();
+      };
+
+      const waiter: Waiter = {
+        toolName,
+        weight,
+        resolve,
+        reject,
+        cleanup: () => options.signal?.removeEventListener("abort", onAbort)
+      };
+
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(waiter);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Snapshot for diagnostics
+   */
+  getState(): { tokens: number; active: number; queued: number } {
+    this.refill();
+    return { tokens: this.tokens, active: this.active, queued: this.queue.length };
+  }
+
+  private getWeight(toolName: string): number {
+    const weight = this.options.toolWeights[toolName] ?? 1;
+    // A weight above the bucket size could never be satisfied
+    return Math.min(Math.max(weight, 0), this.options.burst);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.options.burst, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Time until the bucket holds enough tokens for everything queued plus this call
+   */
+  private estimateWait(weight: number): number {
+    const queuedWeight = this.queue.reduce((sum, waiter) => sum + waiter.weight, 0);
+    const deficit = queuedWeight + weight - this.tokens;
+    return deficit > 0 ? Math.ceil(deficit / this.refillPerMs) : 0;
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+      this.schedule();
+    };
+  }
+
+  /**
+   * Start queued calls in order, or arm a timer for when the head of the queue can go
+   */
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.refill();
+    let head = this.queue[0];
+    while (head && this.active < this.options.maxConcurrent && this.tokens >= head.weight) {
+      this.queue.shift();
+      this.tokens -= head.weight;
+      this.active++;
+      head.cleanup();
+      head.resolve(this.createRelease());
+      head = this.queue[0];
+    }
+
+    // Waiting on concurrency is resumed by release(); waiting on tokens needs a timer
+    if (head && this.active < this.options.maxConcurrent) {
+      const waitMs = Math.ceil((head.weight - this.tokens) / this.refillPerMs);
+      this.timer = setTimeout(() => this.schedule(), waitMs);
+    }
+  }
+}
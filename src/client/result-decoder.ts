@@ -0,0 +1,149 @@
+/**
+ * Decoding of MCP tools/call results
+ *
+ * A tool result can carry several content blocks (text, image, audio,
+ * embedded resources, resource links) plus optional structuredContent.
+ * The decoder merges all of them into one value for callers, keeps binary
+ * payloads as Buffers and turns isError results into ToolExecutionError.
+ */
+
+import { ToolExecutionError } from "../utils/error-handler.js";
+
+export interface ToolAttachment {
+  kind: "image" | "audio" | "resource";
+  mimeType: string | undefined;
+  /** Resource URI for embedded resources */
+  uri: string | undefined;
+  data: Buffer;
+}
+
+export interface ToolResourceLink {
+  uri: string;
+  name: string | undefined;
+  mimeType: string | undefined;
+  description: string | undefined;
+}
+
+export interface DecodedToolResult {
+  /** structuredContent when present, otherwise the merged text blocks (JSON-parsed where possible) */
+  data: unknown;
+  attachments: ToolAttachment[];
+  resourceLinks: ToolResourceLink[];
+  /** The unmodified tools/call result */
+  raw: unknown;
+}
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  uri?: string;
+  name?: string;
+  description?: string;
+  resource?: { uri: string; mimeType?: string; text?: string; blob?: string };
+}
+
+/**
+ * Decode a tools/call result, throwing ToolExecutionError when the server flagged it as an error
+ */
+export function decodeToolResult(toolName: string, response: unknown): DecodedToolResult {
+  const result = (response ?? {}) as {
+    content?: ContentBlock[];
+    structuredContent?: unknown;
+    isError?: boolean;
+    toolResult?: unknown;
+  };
+
+  // Servers on the pre-2024-11-05 protocol return a bare toolResult
+  if (result.toolResult !== undefined && result.content === undefined) {
+    return { data: result.toolResult, attachments: [], resourceLinks: [], raw: response };
+  }
+
+  const blocks = Array.isArray(result.content) ? result.content : [];
+  const texts: unknown[] = [];
+  const attachments: ToolAttachment[] = [];
+  const resourceLinks: ToolResourceLink[] = [];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "text":
+        if (block.text !== undefined) {
+          texts.push(parseText(block.text));
+        }
+        break;
+
+      case "image":
+      case "audio":
+        attachments.push({
+          kind: block.type,
+          mimeType: block.mimeType,
+          uri: undefined,
+          data: Buffer.from(block.data ?? "", "base64")
+        });
+        break;
+
+      case "resource":
+        if (block.resource?.blob !== undefined) {
+          attachments.push({
+            kind: "resource",
+            mimeType: block.resource.mimeType,
+            uri: block.resource.uri,
+            data: Buffer.from(block.resource.blob, "base64")
+          });
+        } else if (block.resource?.text !== undefined) {
+          texts.push(parseText(block.resource.text));
+        }
+        break;
+
+      case "resource_link":
+        resourceLinks.push({
+          uri: block.uri ?? "",
+          name: block.name,
+          mimeType: block.mimeType,
+          description: block.description
+        });
+        break;
+    }
+  }
+
+  if (result.isError) {
+    const message = texts.map(text => typeof text === "string" ? text : JSON.stringify(text)).join("\n");
+    throw new ToolExecutionError(toolName, message || "Tool reported an error without a message");
+  }
+
+  const data = result.structuredContent !== undefined ? result.structuredContent : mergeTexts(texts);
+  return { data, attachments, resourceLinks, raw: response };
+}
+
+function parseText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Merge text blocks: one block stays as is, arrays are concatenated,
+ * plain strings are joined and anything else becomes a list of values
+ */
+function mergeTexts(texts: unknown[]): unknown {
+  if (texts.length === 0) {
+    return undefined;
+  }
+
+  if (texts.length === 1) {
+    return texts[0];
+  }
+
+  if (texts.every(Array.isArray)) {
+    return (texts as unknown[][]).flat();
+  }
+
+  if (texts.every(text => typeof text === "string")) {
+    return texts.join("\n");
+  }
+
+  return texts;
+}
@@ -0,0 +1,115 @@
+/**
+ * Scrubbing of recorded MCP traffic
+ *
+ * Fixtures get committed, so credentials are redacted and personal data is
+ * replaced with placeholders. Placeholders are derived from a hash of the
+ * original value: the same email or accountId always gets the same
+ * placeholder, which keeps request matching working during replay.
+ */
+
+import crypto from 'crypto';
+
+const SECRET_KEY = /token|secret|password|authorization|cookie|api_?key/i;
+/** Pagination cursors such as nextPageToken; replay needs them to fetch the next page */
+const PAGINATION_KEY = /page_?token$|cursor$/i;
+const ACCOUNT_ID_KEY = /^account_?id$/i;
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const BEARER = /Bearer\s+[A-Za-z0-9._~+/-]+=*/g;
+const JWT = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+/** Atlassian accountIds of the form 557058:<uuid> */
+const PREFIXED_ACCOUNT_ID = /\b\d{6}:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/g;
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Copy of a JSON value with secrets redacted and emails and accountIds replaced.
+ * Strings holding JSON (tool results are JSON text) are scrubbed as JSON.
+ */
+export function scrubFixtureValue<T>(value: T): T {
+  const accountIds = new Set<string>();
+  collectAccountIds(value, accountIds);
+  return scrub(value, accountIds) as T;
+}
+
+function collectAccountIds(value: unknown, accountIds: Set<string>): void {
+  if (typeof value === 'string') {
+    const parsed = parseJsonText(value);
+    if (parsed !== undefined) {
+      collectAccountIds(parsed, accountIds);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach(item => collectAccountIds(item, accountIds));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      // Short values would match unrelated text
+      if (ACCOUNT_ID_KEY.test(key) && typeof item === 'string' && item.length >= 8 && !isPlaceholder(item)) {
+        accountIds.add(item);
+      }
+      collectAccountIds(item, accountIds);
+    }
+  }
+}
+
+function scrub(value: unknown, accountIds: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return scrubString(value, accountIds);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => scrub(item, accountIds));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+      if (SECRET_KEY.test(key) && !PAGINATION_KEY.test(key) && typeof item === 'string') {
+        return [key, REDACTED];
+      }
+      return [key, scrub(item, accountIds)];
+    }));
+  }
+  return value;
+}
+
+function scrubString(text: string, accountIds: Set<string>): string {
+  const parsed = parseJsonText(text);
+  if (parsed !== undefined) {
+    return JSON.stringify(scrub(parsed, accountIds));
+  }
+
+  let scrubbed = text
+    .replace(BEARER, `Bearer ${REDACTED}`)
+    .replace(JWT, REDACTED)
+    .replace(EMAIL, email => isPlaceholder(email) ? email : `user-${shortHash(email.toLowerCase())}@example.com`)
+    .replace(PREFIXED_ACCOUNT_ID, accountIdPlaceholder);
+
+  for (const accountId of accountIds) {
+    scrubbed = scrubbed.split(accountId).join(accountIdPlaceholder(accountId));
+  }
+  return scrubbed;
+}
+
+function parseJsonText(text: string): unknown {
+  const trimmed = text.trim();
+  if (!(trimmed.startsWith('{') && trimmed.endsWith('}')) && !(trimmed.startsWith('[') && trimmed.endsWith(']'))) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+function accountIdPlaceholder(accountId: string): string {
+  return `account-${shortHash(accountId)}`;
+}
+
+function isPlaceholder(value: string): boolean {
+  return value.startsWith('account-') || /^user-[0-9a-f]+@example\.com$/.test(value);
+}
+
+function shortHash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 12);
+}
@@ -0,0 +1,295 @@
+/**
+ * Record and replay of MCP traffic for offline development
+ *
+ * RecordingTransport wraps a live transport and writes every request with its
+ * response to a JSON fixture, scrubbed of tokens, emails and accountIds.
+ * ReplayTransport answers requests from such a fixture without a server,
+ * matching on the method plus the normalized params.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ErrorCode,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+  type MessageExtraInfo,
+  type RequestId
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from '../../utils/logger.js';
+import { ConfigurationError } from '../../utils/error-handler.js';
+import { scrubFixtureValue } from './fixture-scrubber.js';
+
+export interface FixtureOptions {
+  /** Record live traffic into the fixture, or answer from it without a server */
+  mode: 'record' | 'replay';
+  path: string;
+}
+
+export interface FixtureInteraction {
+  method: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface Fixture {
+  version: 1;
+  interactions: FixtureInteraction[];
+}
+
+/**
+ * Fixture settings from ATLASSIAN_MCP_RECORD or ATLASSIAN_MCP_REPLAY (each a fixture path)
+ */
+export function fixtureFromEnv(): FixtureOptions | null {
+  const record = process.env['ATLASSIAN_MCP_RECORD'];
+  const replay = process.env['ATLASSIAN_MCP_REPLAY'];
+
+  if (record && replay) {
+    throw new ConfigurationError('Set ATLASSIAN_MCP_RECORD or ATLASSIAN_MCP_REPLAY, not both');
+  }
+  if (record) {
+    return { mode: 'record', path: record };
+  }
+  if (replay) {
+    return { mode: 'replay', path: replay };
+  }
+  return null;
+}
+
+/**
+ * Read a fixture file; null when it does not exist yet
+ */
+export async function readFixture(fixturePath: string): Promise<Fixture | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(fixturePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const fixture = JSON.parse(content) as Fixture;
+  if (fixture.version !== 1 || !Array.isArray(fixture.interactions)) {
+    throw new ConfigurationError(`${fixturePath} is not a version 1 MCP fixture`);
+  }
+  return fixture;
+}
+
+/**
+ * Key a request is matched on: the method plus its params with _meta (progress
+ * tokens) dropped and keys sorted. initialize is matched on the method alone,
+ * since client info and capabilities do not change the recorded answer.
+ */
+export function fixtureKey(method: string, params: unknown): string {
+  if (method === 'initialize') {
+    return method;
+  }
+  return `${method} ${stableStringify(withoutMeta(params))}`;
+}
+
+/**
+ * Passes messages through to a live transport and appends each request and its
+ * response to the fixture. Recordings add to an existing fixture, so several
+ * runs can build one up.
+ */
+export class RecordingTransport implements Transport {
+  private pending = new Map<RequestId, JSONRPCRequest>();
+  private interactions: FixtureInteraction[] = [];
+  private saving: Promise<void> = Promise.resolve();
+
+  public onclose?: () => void;
+  public onerror?: (error: Error) => void;
+  public onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  /** The live transport's session id, copied whenever it may have changed */
+  public sessionId?: string;
+
+  constructor(
+    private inner: Transport,
+    private fixturePath: string,
+    private logger: Logger
+  ) {}
+
+  async start(): Promise<void> {
+    this.interactions = (await readFixture(this.fixturePath))?.interactions ?? [];
+    this.logger.info('Recording MCP traffic', { fixture: this.fixturePath, existing: this.interactions.length });
+
+    this.inner.onmessage = (message, extra) => {
+      this.syncSessionId();
+      this.capture(message);
+      this.onmessage?.(message, extra);
+    };
+    this.inner.onerror = error => this.onerror?.(error);
+    this.inner.onclose = () => this.onclose?.();
+
+    await this.inner.start();
+    this.syncSessionId();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (isJSONRPCRequest(message)) {
+      this.pending.set(message.id, message);
+    }
+    await this.inner.send(message, options);
+    this.syncSessionId();
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+    await this.saving;
+  }
+
+  setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  private syncSessionId(): void {
+    if (this.inner.sessionId) {
+      this.sessionId = this.inner.sessionId;
+    }
+  }
+
+  private capture(message: JSONRPCMessage): void {
+    if (!isJSONRPCResponse(message) && !isJSONRPCError(message)) {
+      return;
+    }
+
+    const request = this.pending.get(message.id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(message.id);
+
+    this.interactions.push(scrubFixtureValue({
+      method: request.method,
+      ...(request.params !== undefined && { params: withoutMeta(request.params) }),
+      ...(isJSONRPCResponse(message) ? { result: message.result } : { error: message.error })
+    }));
+
+    // Saved after every response so a crashed session still leaves a usable fixture
+    const fixture: Fixture = { version: 1, interactions: [...this.interactions] };
+    this.saving = this.saving
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.fixturePath), { recursive: true });
+        await fs.writeFile(this.fixturePath, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+      })
+      .catch(error => this.logger.warn('Could not write MCP fixture', { fixture: this.fixturePath, error: String(error) }));
+  }
+}
+
+/**
+ * Answers requests from a recorded fixture. Repeated requests get the recorded
+ * responses in order, then the last one again; requests that were never
+ * recorded fail with a JSON-RPC error naming the fixture.
+ */
+export class ReplayTransport implements Transport {
+  private responses = new Map<string, FixtureInteraction[]>();
+  private served = new Map<string, number>();
+  private isStarted = false;
+
+  public onclose?: () => void;
+  public onerror?: (error: Error) => void;
+  public onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  constructor(
+    private fixturePath: string,
+    private logger: Logger
+  ) {}
+
+  async start(): Promise<void> {
+    const fixture = await readFixture(this.fixturePath);
+    if (!fixture) {
+      throw new ConfigurationError(`MCP fixture ${this.fixturePath} does not exist; record one with ATLASSIAN_MCP_RECORD`);
+    }
+
+    this.responses.clear();
+    this.served.clear();
+    for (const interaction of fixture.interactions) {
+      const key = fixtureKey(interaction.method, interaction.params);
+      this.responses.set(key, [...(this.responses.get(key) ?? []), interaction]);
+    }
+
+    this.isStarted = true;
+    this.logger.info('Replaying MCP traffic', { fixture: this.fixturePath, interactions: fixture.interactions.length });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    // Notifications and answers to server requests need no reply
+    if (!this.isStarted || !isJSONRPCRequest(message)) {
+      return;
+    }
+
+    const interaction = this.next(message);
+    const reply: JSONRPCMessage = interaction?.error
+      ? { jsonrpc: '2.0', id: message.id, error: interaction.error }
+      : interaction
+        ? { jsonrpc: '2.0', id: message.id, result: (interaction.result ?? {}) as Record<string, unknown> }
+        : {
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: ErrorCode.InternalError, message: `No recorded response for ${describeRequest(message)} in ${this.fixturePath}` }
+        };
+
+    if (!interaction) {
+      this.logger.warn('No recorded response for request', { method: message.method, params: message.params });
+    }
+
+    // Answer after send() returns, as a real transport would
+    queueMicrotask(() => this.onmessage?.(reply));
+  }
+
+  async close(): Promise<void> {
+    if (!this.isStarted) {
+      return;
+    }
+    this.isStarted = false;
+    this.onclose?.();
+  }
+
+  private next(request: JSONRPCRequest): FixtureInteraction | undefined {
+    // Recorded params were scrubbed, so the live ones must be too before comparing
+    const key = fixtureKey(request.method, scrubFixtureValue(request.params));
+    const recorded = this.responses.get(key);
+    if (!recorded || recorded.length === 0) {
+      return undefined;
+    }
+
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return recorded[Math.min(index, recorded.length - 1)];
+  }
+}
+
+function describeRequest(request: JSONRPCRequest): string {
+  const name = request.params?.['name'];
+  return typeof name === 'string' ? `${request.method} ${name}` : request.method;
+}
+
+function withoutMeta(params: unknown): unknown {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    return params;
+  }
+  const { _meta, ...rest } = params as Record<string, unknown>;
+  return rest;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -146,6 +146,9 @@ export class AtlassianSSETransport implements Transport {
           return;
         } catch (refreshError) {
           this.logger.error('Token refresh failed', refreshError);
+          if (refreshError instanceof AuthenticationError) {
+            throw refreshError;
+          }
           throw new AuthenticationError('Authentication failed and token refresh unsuccessful');
         }
       }
@@ -0,0 +1,377 @@
+/**
+ * Streamable HTTP Transport wrapper for Atlassian MCP Server
+ */
+
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+  type StreamableHTTPReconnectionOptions
+} from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { FetchLike, Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type JSONRPCRequest,
+  type RequestId
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from '../../utils/logger.js';
+import type { AtlassianOAuthProvider } from '../auth/oauth-provider.js';
+import { AuthenticationError, ConnectionError } from '../../utils/error-handler.js';
+
+export interface StreamableHTTPTransportOptions {
+  /** Injects `Authorization: Bearer` from this provider and refreshes on 401 */
+  authProvider?: AtlassianOAuthProvider | null;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Rejoin an existing server session instead of starting a new one */
+  sessionId?: string;
+  /** Backoff for re-opening dropped SSE streams */
+  reconnection?: StreamableHTTPReconnectionOptions;
+}
+
+interface PendingRequest {
+  message: JSONRPCRequest;
+  /** Last SSE event id seen on the request's response stream */
+  lastEventId?: string;
+  /** The request's POST response stream broke before the response arrived */
+  streamDropped: boolean;
+  resumed: boolean;
+}
+
+/**
+ * Streamable HTTP transport with OAuth bearer injection, MCP session tracking
+ * and resumption of dropped response streams via Last-Event-ID
+ */
+export class AtlassianStreamableHTTPTransport implements Transport {
+  private transport: StreamableHTTPClientTransport | null = null;
+  private isConnected = false;
+  private protocolVersion: string | undefined;
+  private pendingRequests = new Map<RequestId, PendingRequest>();
+
+  // Transport event handlers
+  public onclose?: () => void;
+  public onerror?: (error: Error) => void;
+  public onmessage?: (message: JSONRPCMessage) => void;
+
+  /** MCP session id assigned by the server, once initialized */
+  public sessionId?: string;
+
+  constructor(
+    private url: string,
+    private options: StreamableHTTPTransportOptions,
+    private logger: Logger
+  ) {
+    if (options.sessionId) {
+      this.sessionId = options.sessionId;
+    }
+  }
+
+  /**
+   * Start the transport connection
+   */
+  async start(): Promise<void> {
+    if (this.isConnected) {
+      this.logger.warn('Transport already connected');
+      return;
+    }
+
+    this.logger.info('Starting Atlassian Streamable HTTP transport', { url: this.url });
+
+    try {
+      const authProvider = this.options.authProvider;
+      if (authProvider && !authProvider.isAuthenticated()) {
+        this.logger.info('Not authenticated, starting auth flow');
+        await authProvider.authenticate();
+      }
+
+      this.transport = this.createTransport();
+      await this.transport.start();
+      this.isConnected = true;
+
+      this.logger.info('Atlassian Streamable HTTP transport started');
+    } catch (error) {
+      this.logger.error('Failed to start Streamable HTTP transport', error);
+      this.transport = null;
+      this.isConnected = false;
+
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        throw new ConnectionError(`Failed to connect to Atlassian MCP server: ${error.message}`, error);
+      }
+      throw new ConnectionError('Failed to connect to Atlassian MCP server');
+    }
+  }
+
+  /**
+   * Close the transport, ending the server session
+   */
+  async close(): Promise<void> {
+    this.logger.info('Closing Atlassian Streamable HTTP transport');
+
+    if (this.transport) {
+      try {
+        await this.transport.terminateSession();
+      } catch (error) {
+        this.logger.warn('Could not terminate MCP session', error);
+      }
+      await this.transport.close();
+      // Reconnections the SDK already scheduled fail once aborted; they are not errors of a live transport
+      delete this.transport.onerror;
+      this.transport = null;
+    }
+
+    delete this.sessionId;
+    this.pendingRequests.clear();
+    this.isConnected = false;
+  }
+
+  /**
+   * Send a message through the transport
+   */
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    if (!this.transport || !this.isConnected) {
+      throw new ConnectionError('Transport not connected');
+    }
+
+    if (isJSONRPCRequest(message)) {
+      this.pendingRequests.set(message.id, { message, streamDropped: false, resumed: false });
+    }
+
+    this.logger.debug('Sending Streamable HTTP message', {
+      type: 'method' in message ? 'request' : 'response',
+      id: 'id' in message ? message.id : undefined
+    });
+
+    try {
+      await this.transport.send(message, this.trackResumption(message, options));
+      this.rememberSession();
+    } catch (error) {
+      if (this.isAuthError(error) && this.options.authProvider) {
+        this.logger.info('Authentication error detected, attempting token refresh');
+
+        try {
+          await this.options.authProvider.refreshTokens();
+
+          // Headers are fixed per SDK transport, so swap in one with the new token on the same session
+          this.replaceTransport();
+          await this.transport!.start();
+
+          await this.transport!.send(message, this.trackResumption(message, options));
+          return;
+        } catch (refreshError) {
+          this.logger.error('Token refresh failed', refreshError);
+          if (refreshError instanceof AuthenticationError) {
+            throw refreshError;
+          }
+          throw new AuthenticationError('Authentication failed and token refresh unsuccessful');
+        }
+      }
+
+      if ('id' in message) {
+        this.pendingRequests.delete(message.id);
+      }
+
+      if (error instanceof StreamableHTTPError && error.code === 404 && this.sessionId) {
+        // The server no longer knows the session; a new one needs a fresh initialize
+        delete this.sessionId;
+        throw new ConnectionError('MCP session expired on the server', error);
+      }
+
+      if (error instanceof Error) {
+        throw new ConnectionError(`Failed to send message: ${error.message}`, error);
+      }
+      throw new ConnectionError('Failed to send message');
+    }
+  }
+
+  /**
+   * Set the protocol version for the transport
+   */
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+    this.transport?.setProtocolVersion(version);
+  }
+
+  /**
+   * Check if the transport is connected
+   */
+  public isTransportConnected(): boolean {
+    return this.isConnected;
+  }
+
+  private createTransport(): StreamableHTTPClientTransport {
+    const headers: Record<string, string> = { ...this.options.headers };
+
+    if (this.options.authProvider) {
+      const tokens = this.options.authProvider.getTokens();
+      if (!tokens) {
+        throw new AuthenticationError('No valid tokens available');
+      }
+      headers['Authorization'] = `Bearer ${tokens.access_token}`;
+    }
+
+    const transport = new StreamableHTTPClientTransport(new URL(this.url), {
+      requestInit: { headers },
+      fetch: this.fetchWithStreamTracking,
+      ...(this.sessionId && { sessionId: this.sessionId }),
+      ...(this.options.reconnection && { reconnectionOptions: this.options.reconnection })
+    });
+
+    if (this.protocolVersion) {
+      transport.setProtocolVersion(this.protocolVersion);
+    }
+
+    transport.onclose = () => {
+      this.logger.info('Streamable HTTP transport closed');
+      this.isConnected = false;
+      this.onclose?.();
+    };
+
+    transport.onerror = (error: Error) => {
+      if (error.message.startsWith('SSE stream disconnected')) {
+        this.logger.warn('Streamable HTTP stream dropped', { error: error.message });
+        this.resumeDroppedRequests();
+      } else {
+        this.logger.error('Streamable HTTP transport error', error);
+      }
+      this.onerror?.(error);
+    };
+
+    transport.onmessage = (message: JSONRPCMessage) => {
+      if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+        this.pendingRequests.delete(message.id);
+      }
+      this.onmessage?.(message);
+    };
+
+    return transport;
+  }
+
+  /**
+   * Swap the SDK transport without reporting a close to the client
+   */
+  private replaceTransport(): void {
+    const previous = this.transport;
+    if (previous) {
+      this.rememberSession();
+      delete previous.onclose;
+      delete previous.onerror;
+      void previous.close();
+    }
+    this.transport = this.createTransport();
+  }
+
+  private rememberSession(): void {
+    if (this.transport?.sessionId) {
+      this.sessionId = this.transport.sessionId;
+    }
+  }
+
+  /**
+   * Record the last event id of a request's response stream so it can be resumed
+   */
+  private trackResumption(message: JSONRPCMessage, options?: TransportSendOptions): TransportSendOptions {
+    const pending = 'id' in message ? this.pendingRequests.get(message.id) : undefined;
+
+    return {
+      ...options,
+      onresumptiontoken: (token: string) => {
+        if (pending) {
+          pending.lastEventId = token;
+        }
+        options?.onresumptiontoken?.(token);
+      }
+    };
+  }
+
+  /**
+   * Fetch for the SDK transport that marks a request whose SSE response stream
+   * breaks, so only that request is resumed. Dropped GET streams (the
+   * notification stream and resumed requests) are reconnected by the SDK itself
+   */
+  private fetchWithStreamTracking: FetchLike = async (url, init) => {
+    const response = await fetch(url, init);
+    const id = init?.method === 'POST' ? requestIdOf(init.body) : undefined;
+    if (id === undefined || !response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+      return response;
+    }
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        try {
+          const { value, done } = await reader.read();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          const pending = this.pendingRequests.get(id);
+          if (pending) {
+            pending.streamDropped = true;
+          }
+          controller.error(error);
+        }
+      },
+      cancel: reason => reader.cancel(reason)
+    });
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  };
+
+  /**
+   * Re-open the response streams that dropped from their own last event id; the server replays what was missed
+   */
+  private resumeDroppedRequests(): void {
+    for (const pending of this.pendingRequests.values()) {
+      if (!pending.streamDropped || !pending.lastEventId || pending.resumed || !this.transport) {
+        continue;
+      }
+
+      // Once resumed, the SDK keeps reconnecting that GET stream on its own
+      pending.resumed = true;
+      this.logger.info('Resuming response stream', { id: pending.message.id, lastEventId: pending.lastEventId });
+
+      this.transport
+        .send(pending.message, { resumptionToken: pending.lastEventId, onresumptiontoken: token => {
+          pending.lastEventId = token;
+        } })
+        .catch(error => this.onerror?.(error instanceof Error ? error : new Error(String(error))));
+    }
+  }
+
+  /**
+   * Determine if an error is authentication-related
+   */
+  private isAuthError(error: unknown): boolean {
+    if (error instanceof StreamableHTTPError) {
+      return error.code === 401;
+    }
+    if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+      return message.includes('401') || message.includes('unauthorized');
+    }
+    return false;
+  }
+}
+
+/**
+ * Id of the JSON-RPC request in a POST body, if it is one
+ */
+function requestIdOf(body: RequestInit['body']): RequestId | undefined {
+  if (typeof body !== 'string') {
+    return undefined;
+  }
+
+  try {
+    const message: unknown = JSON.parse(body);
+    return isJSONRPCRequest(message) ? message.id : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Transport selection for the Atlassian MCP client
+ *
+ * The client speaks MCP over whichever transport its connection config picks:
+ * a spawned mcp-remote proxy (which runs the OAuth flow itself), any other
+ * stdio MCP server, a direct connection authenticated by AtlassianOAuthProvider,
+ * or any other MCP endpoint with static headers. Direct connections use SSE or
+ * Streamable HTTP, detected from the URL unless the protocol is given.
+ */
+
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import path from 'path';
+import type { Stream } from 'stream';
+import { loadConfig, type AtlassianConfig } from '../../config/atlassian-config.js';
+import type { Logger } from '../../utils/logger.js';
+import { ConfigurationError } from '../../utils/error-handler.js';
+import type { AtlassianOAuthProvider } from '../auth/oauth-provider.js';
+import type { TokenStoreOptions } from '../auth/token-store.js';
+import { AtlassianSSETransport } from './sse-transport.js';
+import { AtlassianStreamableHTTPTransport } from './streamable-http-transport.js';
+
+export const DEFAULT_SERVER_URL = 'https://mcp.atlassian.com/v1/sse';
+export const DEFAULT_MCP_REMOTE_VERSION = '0.1.13';
+
+/** How to start a stdio MCP server */
+export interface StdioLaunchOptions {
+  command: string;
+  args?: string[];
+  /** Added to the few variables (PATH, HOME, ...) the SDK passes to the child by default */
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+/**
+ * mcp-remote runs as `npx -y mcp-remote@<version> <serverUrl>` unless a command
+ * is given, e.g. a pinned local binary; it then gets [serverUrl] unless args are given too
+ */
+export interface McpRemoteConnection extends Partial<StdioLaunchOptions> {
+  type: 'mcp-remote';
+  serverUrl?: string;
+  mcpRemoteVersion?: string;
+}
+
+/** Any MCP server that speaks stdio */
+export interface StdioConnection extends StdioLaunchOptions {
+  type: 'stdio';
+}
+
+/** Wire protocol for direct connections; auto picks SSE for URLs ending in /sse */
+export type HttpProtocol = 'auto' | 'sse' | 'streamable-http';
+
+export interface OAuthConnection {
+  type: 'oauth';
+  atlassian: AtlassianConfig;
+  /** Reuse an existing provider instead of creating one from the config */
+  authProvider?: AtlassianOAuthProvider;
+  /** Where the provider persists tokens, or false for memory only (default: encrypted file of ATLASSIAN_MCP_PROFILE) */
+  tokenStore?: TokenStoreOptions | false;
+  protocol?: HttpProtocol;
+}
+
+export interface EndpointConnection {
+  type: 'endpoint';
+  url: string;
+  headers?: Record<string, string>;
+  protocol?: HttpProtocol;
+  /** Streamable HTTP only: rejoin this server session */
+  sessionId?: string;
+}
+
+export type ConnectionConfig = McpRemoteConnection | StdioConnection | OAuthConnection | EndpointConnection;
+
+export type ConnectionType = ConnectionConfig['type'];
+
+/**
+ * Build the connection from ATLASSIAN_MCP_TRANSPORT (mcp-remote, stdio, oauth or endpoint),
+ * ATLASSIAN_MCP_PROTOCOL and ATLASSIAN_MCP_SERVER_URL. mcp-remote and stdio
+ * also read ATLASSIAN_MCP_COMMAND, ATLASSIAN_MCP_ARGS, ATLASSIAN_MCP_ENV and
+ * ATLASSIAN_MCP_CWD, and mcp-remote ATLASSIAN_MCP_REMOTE_VERSION.
+ */
+export function connectionFromEnv(): ConnectionConfig {
+  const type = process.env['ATLASSIAN_MCP_TRANSPORT'] ?? 'mcp-remote';
+  const serverUrl = process.env['ATLASSIAN_MCP_SERVER_URL'];
+  const protocol = parseProtocol(process.env['ATLASSIAN_MCP_PROTOCOL'] ?? 'auto');
+
+  switch (type) {
+    case 'mcp-remote': {
+      const mcpRemoteVersion = process.env['ATLASSIAN_MCP_REMOTE_VERSION'];
+      return {
+        type,
+        ...(serverUrl && { serverUrl }),
+        ...(mcpRemoteVersion && { mcpRemoteVersion }),
+        ...launchFromEnv()
+      };
+    }
+
+    case 'stdio': {
+      const { command, ...launch } = launchFromEnv();
+      if (!command) {
+        throw new ConfigurationError('ATLASSIAN_MCP_TRANSPORT=stdio needs ATLASSIAN_MCP_COMMAND');
+      }
+      return { type, command, ...launch };
+    }
+
+    case 'oauth':
+      return { type, atlassian: loadConfig().atlassian, protocol };
+
+    case 'endpoint':
+      return { type, url: serverUrl ?? DEFAULT_SERVER_URL, protocol };
+
+    default:
+      throw new ConfigurationError(
+        `Unknown ATLASSIAN_MCP_TRANSPORT "${type}". Expected mcp-remote, stdio, oauth or endpoint`
+      );
+  }
+}
+
+/**
+ * Launch settings from the environment. ATLASSIAN_MCP_ARGS is a JSON array or
+ * space separated; ATLASSIAN_MCP_ENV lists KEY=value pairs, or bare names to
+ * pass on from this process, separated by commas
+ */
+function launchFromEnv(): Partial<StdioLaunchOptions> {
+  const command = process.env['ATLASSIAN_MCP_COMMAND'];
+  const args = process.env['ATLASSIAN_MCP_ARGS'];
+  const env = process.env['ATLASSIAN_MCP_ENV'];
+  const cwd = process.env['ATLASSIAN_MCP_CWD'];
+
+  return {
+    ...(command && { command }),
+    ...(args && { args: parseArgs(args) }),
+    ...(env && { env: parseEnv(env) }),
+    ...(cwd && { cwd })
+  };
+}
+
+function parseArgs(value: string): string[] {
+  if (!value.trim().startsWith('[')) {
+    return value.trim().split(/\s+/);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new ConfigurationError('ATLASSIAN_MCP_ARGS is not valid JSON', error as Error);
+  }
+  if (!Array.isArray(parsed) || !parsed.every(arg => typeof arg === 'string')) {
+    throw new ConfigurationError('ATLASSIAN_MCP_ARGS must be a JSON array of strings');
+  }
+  return parsed;
+}
+
+function parseEnv(value: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const entry of value.split(',')) {
+    const separator = entry.indexOf('=');
+    const name = (separator === -1 ? entry : entry.slice(0, separator)).trim();
+    if (!name) {
+      continue;
+    }
+
+    const inherited = process.env[name];
+    if (separator !== -1) {
+      env[name] = entry.slice(separator + 1);
+    } else if (inherited !== undefined) {
+      env[name] = inherited;
+    }
+  }
+
+  return env;
+}
+
+function parseProtocol(value: string): HttpProtocol {
+  if (value === 'auto' || value === 'sse' || value === 'streamable-http') {
+    return value;
+  }
+  throw new ConfigurationError(`Unknown ATLASSIAN_MCP_PROTOCOL "${value}". Expected auto, sse or streamable-http`);
+}
+
+/**
+ * Wire protocol for a URL: SSE endpoints conventionally end in /sse, everything
+ * else (e.g. https://mcp.atlassian.com/v1/mcp) is treated as Streamable HTTP
+ */
+export function resolveHttpProtocol(url: string, protocol: HttpProtocol = 'auto'): 'sse' | 'streamable-http' {
+  if (protocol !== 'auto') {
+    return protocol;
+  }
+  return new URL(url).pathname.replace(/\/+$/, '').endsWith('/sse') ? 'sse' : 'streamable-http';
+}
+
+/**
+ * URL of the MCP server behind a connection
+ */
+export function getConnectionUrl(connection: ConnectionConfig): string {
+  switch (connection.type) {
+    case 'mcp-remote':
+      return connection.serverUrl ?? DEFAULT_SERVER_URL;
+    case 'stdio':
+      return `stdio:${[connection.command, ...connection.args ?? []].join(' ')}`;
+    case 'oauth':
+      return connection.atlassian.mcpServerUrl;
+    case 'endpoint':
+      return connection.url;
+  }
+}
+
+/**
+ * Create the OAuth provider for an oauth connection.
+ *
+ * Loaded on demand because the provider pulls in express and open, which the
+ * mcp-remote and endpoint connections never need.
+ */
+export async function createAuthProvider(
+  connection: OAuthConnection,
+  logger: Logger
+): Promise<AtlassianOAuthProvider> {
+  if (connection.authProvider) {
+    return connection.authProvider;
+  }
+
+  const { AtlassianOAuthProvider } = await import('../auth/oauth-provider.js');
+  return new AtlassianOAuthProvider(connection.atlassian, logger, {
+    ...(connection.tokenStore !== undefined && { tokenStore: connection.tokenStore })
+  });
+}
+
+/**
+ * Command, args, env and working directory of the process a connection spawns,
+ * or null for connections without one
+ */
+export function getStdioLaunch(connection: ConnectionConfig): StdioLaunchOptions | null {
+  switch (connection.type) {
+    case 'mcp-remote': {
+      const serverUrl = getConnectionUrl(connection);
+      const { command, args, env, cwd } = connection;
+      return {
+        ...(command
+          ? { command, args: args ?? [serverUrl] }
+          : {
+            command: 'npx',
+            args: args ?? ['-y', `mcp-remote@${connection.mcpRemoteVersion ?? DEFAULT_MCP_REMOTE_VERSION}`, serverUrl]
+          }),
+        ...(env && { env }),
+        ...(cwd && { cwd })
+      };
+    }
+    case 'stdio': {
+      const { type: _type, ...launch } = connection;
+      return launch;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * PID of the process a stdio transport spawned, or null for other transports
+ */
+export function getChildProcessId(transport: Transport): number | null {
+  return transport instanceof StdioClientTransport ? transport.pid : null;
+}
+
+/**
+ * Create a fresh transport for one connection attempt
+ */
+export function createTransport(
+  connection: ConnectionConfig,
+  logger: Logger,
+  authProvider: AtlassianOAuthProvider | null
+): Transport {
+  switch (connection.type) {
+    case 'mcp-remote':
+    case 'stdio': {
+      const launch = getStdioLaunch(connection)!;
+      const name = connection.type === 'mcp-remote' ? 'mcp-remote' : path.basename(launch.command);
+      const transport = new StdioClientTransport({ ...launch, stderr: 'pipe' });
+      forwardStderr(transport.stderr, name, logger);
+      return transport;
+    }
+
+    case 'oauth':
+      if (!authProvider) {
+        throw new ConfigurationError('An oauth connection needs an AtlassianOAuthProvider');
+      }
+      if (resolveHttpProtocol(connection.atlassian.mcpServerUrl, connection.protocol) === 'sse') {
+        return new AtlassianSSETransport(connection.atlassian, authProvider, logger);
+      }
+      return new AtlassianStreamableHTTPTransport(connection.atlassian.mcpServerUrl, { authProvider }, logger);
+
+    case 'endpoint':
+      if (resolveHttpProtocol(connection.url, connection.protocol) === 'sse') {
+        return new SSEClientTransport(new URL(connection.url), {
+          ...(connection.headers && { requestInit: { headers: connection.headers } })
+        });
+      }
+      return new AtlassianStreamableHTTPTransport(connection.url, {
+        ...(connection.headers && { headers: connection.headers }),
+        ...(connection.sessionId && { sessionId: connection.sessionId })
+      }, logger);
+  }
+}
+
+/**
+ * Log the child's stderr line by line; it would otherwise go straight to the
+ * terminal, or nowhere when nobody watches it
+ */
+function forwardStderr(stream: Stream | null, name: string, logger: Logger): void {
+  let pending = '';
+
+  stream?.on('data', (chunk: Buffer | string) => {
+    const lines = (pending + chunk.toString()).split(/\r?\n/);
+    pending = lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(line => logger.info(`[${name}] ${line}`));
+  });
+  stream?.on('end', () => {
+    if (pending.trim()) {
+      logger.info(`[${name}] ${pending}`);
+    }
+    pending = '';
+  });
+}
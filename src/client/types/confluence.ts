@@ -0,0 +1,135 @@
+/**
+ * Confluence types returned by the Atlassian MCP server tools
+ *
+ * Spaces, pages and comments follow the Confluence Cloud v2 REST shapes;
+ * CQL search results follow the v1 search API that the server wraps.
+ */
+
+export interface ConfluenceLinks {
+  webui?: string;
+  editui?: string;
+  tinyui?: string;
+  base?: string;
+  next?: string;
+  [name: string]: string | undefined;
+}
+
+export interface ConfluenceSpace {
+  id: string;
+  key: string;
+  name: string;
+  type?: 'global' | 'personal' | string;
+  status?: 'current' | 'archived' | string;
+  homepageId?: string;
+  description?: unknown;
+  createdAt?: string;
+  _links?: ConfluenceLinks;
+}
+
+export interface ConfluenceVersion {
+  number: number;
+  message?: string;
+  minorEdit?: boolean;
+  authorId?: string;
+  createdAt?: string;
+}
+
+export interface ConfluenceBody {
+  storage?: { value: string; representation: 'storage' };
+  atlas_doc_format?: { value: string; representation: 'atlas_doc_format' };
+  [representation: string]: { value: string; representation: string } | undefined;
+}
+
+export interface ConfluencePage {
+  id: string;
+  title: string;
+  status?: string;
+  spaceId?: string;
+  parentId?: string | null;
+  parentType?: string | null;
+  authorId?: string;
+  createdAt?: string;
+  version?: ConfluenceVersion;
+  body?: ConfluenceBody | string;
+  _links?: ConfluenceLinks;
+}
+
+export interface ConfluenceComment {
+  id: string;
+  status?: string;
+  title?: string;
+  pageId?: string;
+  version?: ConfluenceVersion;
+  body?: ConfluenceBody | string;
+  _links?: ConfluenceLinks;
+}
+
+export interface ConfluenceSearchHit {
+  title: string;
+  excerpt?: string;
+  url?: string;
+  lastModified?: string;
+  entityType?: string;
+  content?: {
+    id: string;
+    type: string;
+    title: string;
+    status?: string;
+    space?: { key: string; name: string };
+    _links?: ConfluenceLinks;
+  };
+}
+
+export interface ConfluenceSearchResult {
+  results: ConfluenceSearchHit[];
+  start?: number;
+  limit?: number;
+  size?: number;
+  totalSize?: number;
+  cqlQuery?: string;
+  _links?: ConfluenceLinks;
+}
+
+export interface ConfluenceListSpacesOptions {
+  keys?: string[];
+  type?: 'global' | 'personal';
+  status?: 'current' | 'archived';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ConfluenceGetPageOptions {
+  bodyFormat?: 'storage' | 'atlas_doc_format' | 'markdown';
+}
+
+export interface ConfluencePageChildrenOptions {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ConfluenceSearchOptions {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ConfluenceIterateOptions {
+  /** Results requested per page (default: 50) */
+  pageSize?: number;
+  /** Stop after this many results overall */
+  limit?: number;
+}
+
+export interface ConfluenceCreatePageInput {
+  spaceId: string;
+  title: string;
+  body: string;
+  parentId?: string;
+  isPrivate?: boolean;
+}
+
+export interface ConfluenceUpdatePageInput {
+  body: string;
+  title?: string;
+  versionMessage?: string;
+  status?: 'current' | 'draft';
+}
@@ -0,0 +1,158 @@
+/**
+ * Jira types returned by the Atlassian MCP server tools
+ *
+ * These mirror the Jira Cloud REST shapes that the server passes through.
+ * Only the commonly used fields are typed; anything else is still reachable
+ * through the index signatures.
+ */
+
+export interface JiraUser {
+  accountId: string;
+  displayName: string;
+  emailAddress?: string;
+  active?: boolean;
+  timeZone?: string;
+  accountType?: string;
+  avatarUrls?: Record<string, string>;
+}
+
+export interface JiraStatusCategory {
+  id: number;
+  key: string;
+  name: string;
+  colorName?: string;
+}
+
+export interface JiraStatus {
+  id: string;
+  name: string;
+  description?: string;
+  statusCategory?: JiraStatusCategory;
+}
+
+export interface JiraPriority {
+  id: string;
+  name: string;
+  iconUrl?: string;
+}
+
+export interface JiraIssueType {
+  id: string;
+  name: string;
+  description?: string;
+  subtask?: boolean;
+  hierarchyLevel?: number;
+}
+
+export interface JiraProject {
+  id: string;
+  key: string;
+  name: string;
+  description?: string;
+  projectTypeKey?: string;
+  simplified?: boolean;
+  style?: string;
+  url?: string;
+  lead?: JiraUser;
+  issueTypes?: JiraIssueType[];
+}
+
+export interface JiraComponent {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface JiraComment {
+  id: string;
+  author?: JiraUser;
+  body: unknown;
+  created: string;
+  updated?: string;
+}
+
+export interface JiraIssueFields {
+  summary: string;
+  description?: string | null;
+  status?: JiraStatus;
+  priority?: JiraPriority | null;
+  issuetype?: JiraIssueType;
+  project?: JiraProject;
+  assignee?: JiraUser | null;
+  reporter?: JiraUser | null;
+  labels?: string[];
+  components?: JiraComponent[];
+  created?: string;
+  updated?: string;
+  duedate?: string | null;
+  resolution?: { id: string; name: string } | null;
+  parent?: { id: string; key: string; fields?: Partial<JiraIssueFields> };
+  comment?: { comments: JiraComment[]; total: number };
+  [fieldId: string]: unknown;
+}
+
+export interface JiraIssue {
+  id: string;
+  key: string;
+  self?: string;
+  fields: JiraIssueFields;
+}
+
+export interface JiraSearchResult {
+  issues: JiraIssue[];
+  total?: number;
+  startAt?: number;
+  maxResults?: number;
+  nextPageToken?: string;
+  isLast?: boolean;
+}
+
+export interface JiraTransition {
+  id: string;
+  name: string;
+  to?: JiraStatus;
+  hasScreen?: boolean;
+  isAvailable?: boolean;
+}
+
+export interface JiraCreatedIssue {
+  id: string;
+  key: string;
+  self?: string;
+}
+
+export interface JiraGetIssueOptions {
+  fields?: string[];
+  expand?: string;
+}
+
+export interface JiraSearchIssuesOptions {
+  fields?: string[];
+  maxResults?: number;
+  nextPageToken?: string;
+}
+
+export interface JiraIterateOptions {
+  fields?: string[];
+  /** Issues requested per page (default: 50) */
+  pageSize?: number;
+  /** Stop after this many issues overall */
+  limit?: number;
+}
+
+export interface JiraProjectOptions {
+  searchString?: string;
+  action?: 'view' | 'browse' | 'edit' | 'create';
+  maxResults?: number;
+  expandIssueTypes?: boolean;
+}
+
+export interface JiraCreateIssueInput {
+  projectKey: string;
+  issueTypeName: string;
+  summary: string;
+  description?: string;
+  assigneeAccountId?: string;
+  parent?: string;
+  additionalFields?: Record<string, unknown>;
+}
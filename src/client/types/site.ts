@@ -0,0 +1,25 @@
+/**
+ * Atlassian Cloud site types
+ */
+
+/**
+ * An Atlassian Cloud site returned by getAccessibleAtlassianResources
+ */
+export interface AtlassianSite {
+  /** The cloudId passed to every Jira and Confluence tool */
+  id: string;
+  name: string;
+  url: string;
+  scopes: string[];
+  avatarUrl?: string;
+}
+
+/**
+ * The signed-in account, as returned by atlassianUserInfo
+ */
+export interface AtlassianUserInfo {
+  account_id: string;
+  name?: string;
+  email?: string;
+  picture?: string;
+}
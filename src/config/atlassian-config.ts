@@ -24,6 +24,14 @@ export interface RateLimitConfig {
   maxRequestsPerHour: number;
   retryDelay: number;
   maxRetries: number;
+  /** Calls that may go out back to back before the hourly rate applies */
+  burst: number;
+  /** Tool calls in flight at once */
+  maxConcurrent: number;
+  /** Longest a call may queue before failing with RateLimitError */
+  maxWaitMs: number;
+  /** Tokens taken per call of a tool; tools not listed take 1 */
+  toolWeights: Record<string, number>;
 }
 
 export interface FullConfig {
@@ -73,14 +81,105 @@ export function loadConfig(): FullConfig {
       nodeEnv: (process.env['NODE_ENV'] as any) || 'development',
       debugMode: process.env['DEBUG_MODE'] === 'true'
     },
-    rateLimit: {
-      maxRequestsPerHour: 1000, // Adjust based on your Atlassian plan
-      retryDelay: 1000, // 1 second
-      maxRetries: 3
-    }
+    rateLimit: loadRateLimitConfig()
   };
 }
 
+type RateLimitValue = 'maxRequestsPerHour' | 'burst' | 'maxConcurrent' | 'maxWaitMs';
+
+const RATE_LIMIT_DEFAULTS: Record<RateLimitValue, number> = {
+  maxRequestsPerHour: 1000, // Adjust based on your Atlassian plan
+  burst: 10,
+  maxConcurrent: 4,
+  maxWaitMs: 60000
+};
+
+/**
+ * Smallest usable value; below it the token bucket never refills or no call
+ * ever starts. A maxWaitMs of 0 fails calls over the rate instead of queueing them
+ */
+const RATE_LIMIT_MINIMUMS: Record<RateLimitValue, number> = {
+  maxRequestsPerHour: Number.MIN_VALUE,
+  burst: 1,
+  maxConcurrent: 1,
+  maxWaitMs: 0
+};
+
+const RATE_LIMIT_ENV: Record<RateLimitValue, string> = {
+  maxRequestsPerHour: 'ATLASSIAN_MAX_REQUESTS_PER_HOUR',
+  burst: 'ATLASSIAN_RATE_LIMIT_BURST',
+  maxConcurrent: 'ATLASSIAN_MAX_CONCURRENT_CALLS',
+  maxWaitMs: 'ATLASSIAN_RATE_LIMIT_MAX_WAIT_MS'
+};
+
+/**
+ * Load the client-side rate limit from the environment; none of it is required,
+ * and invalid values fall back to the defaults with a warning
+ */
+export function loadRateLimitConfig(warn: (message: string) => void = console.warn): RateLimitConfig {
+  const fromEnv = (key: RateLimitValue): number => {
+    const value = process.env[RATE_LIMIT_ENV[key]];
+    return value === undefined || value.trim() === '' ? RATE_LIMIT_DEFAULTS[key] : Number(value);
+  };
+
+  return {
+    ...checkRateLimits({
+      maxRequestsPerHour: fromEnv('maxRequestsPerHour'),
+      burst: fromEnv('burst'),
+      maxConcurrent: fromEnv('maxConcurrent'),
+      maxWaitMs: fromEnv('maxWaitMs')
+    }, warn),
+    retryDelay: 1000, // 1 second
+    maxRetries: 3,
+    toolWeights: parseToolWeights(process.env['ATLASSIAN_TOOL_WEIGHTS'] || '', warn)
+  };
+}
+
+/**
+ * Replace rate limit values that are not finite or too small with the defaults
+ */
+export function checkRateLimits<T extends Partial<Record<RateLimitValue, number>>>(
+  limits: T,
+  warn: (message: string) => void = console.warn
+): T {
+  const replaced: Partial<Record<RateLimitValue, number>> = {};
+
+  for (const key of Object.keys(RATE_LIMIT_DEFAULTS) as RateLimitValue[]) {
+    const value = limits[key];
+    if (value === undefined || (Number.isFinite(value) && value >= RATE_LIMIT_MINIMUMS[key])) {
+      continue;
+    }
+
+    warn(`Invalid rate limit ${key} (${RATE_LIMIT_ENV[key]}): ${value}; using the default ${RATE_LIMIT_DEFAULTS[key]}`);
+    replaced[key] = RATE_LIMIT_DEFAULTS[key];
+  }
+
+  return { ...limits, ...replaced };
+}
+
+/**
+ * Parse "toolName=weight" pairs separated by commas; invalid entries are skipped with a warning
+ */
+function parseToolWeights(value: string, warn: (message: string) => void): Record<string, number> {
+  const weights: Record<string, number> = {};
+
+  for (const entry of value.split(',')) {
+    const [name, weight] = entry.split('=').map(part => part.trim());
+    if (!name) {
+      continue;
+    }
+
+    const parsed = Number(weight);
+    if (weight === undefined || weight === '' || !Number.isFinite(parsed) || parsed < 0) {
+      warn(`Invalid weight for ${name} in ATLASSIAN_TOOL_WEIGHTS: ${weight ?? '(none)'}; it keeps the default weight of 1`);
+      continue;
+    }
+    weights[name] = parsed;
+  }
+
+  return weights;
+}
+
 /**
  * Validate configuration
  */
@@ -110,6 +209,14 @@ export function validateConfig(config: FullConfig): void {
   if (config.app.port < 1 || config.app.port > 65535) {
     throw new Error(`Invalid port: ${config.app.port}`);
   }
+
+  // Validate rate limit
+  const { maxRequestsPerHour, burst, maxConcurrent } = config.rateLimit;
+  if (!(maxRequestsPerHour > 0) || !(burst >= 1) || !(maxConcurrent >= 1)) {
+    throw new Error(
+      `Invalid rate limit: ${maxRequestsPerHour} requests/hour, burst ${burst}, ${maxConcurrent} concurrent`
+    );
+  }
 }
 
 /**
@@ -134,7 +241,11 @@ export function getTestConfig(): FullConfig {
     rateLimit: {
       maxRequestsPerHour: 100,
       retryDelay: 500,
-      maxRetries: 2
+      maxRetries: 2,
+      burst: 5,
+      maxConcurrent: 2,
+      maxWaitMs: 5000,
+      toolWeights: {}
     }
   };
 }
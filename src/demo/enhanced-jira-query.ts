@@ -47,7 +47,7 @@ class EnhancedJiraQuery {
     console.log(`📋 Getting full details for ticket: ${ticketKey}`);
     
     try {
-      const ticket = await this.client.getJiraIssue(ticketKey);
+      const ticket = await this.client.getIssue(ticketKey);
       
       if (ticket) {
         console.log("✅ TICKET DETAILS:");
@@ -99,15 +99,15 @@ class EnhancedJiraQuery {
     for (const query of queries) {
       try {
         console.log(`\n🔎 ${query.name}:`);
-        const tickets = await this.client.searchJiraIssues(query.jql, 10);
+        const { issues: tickets } = await this.client.searchIssues(query.jql, { maxResults: 10 });
         
         if (tickets && tickets.length > 0) {
           console.log(`   ✅ Found ${tickets.length} ticket(s):`);
           tickets.forEach((ticket, index) => {
-            console.log(`   ${index + 1}. ${ticket.key}: ${(ticket as any).fields?.summary || 'No summary'}`);
-            console.log(`      Status: ${(ticket as any).fields?.status?.name || 'Unknown'}`);
-            console.log(`      Type: ${(ticket as any).fields?.issuetype?.name || 'Unknown'}`);
-            console.log(`      Priority: ${(ticket as any).fields?.priority?.name || 'Unknown'}`);
+            console.log(`   ${index + 1}. ${ticket.key}: ${ticket.fields?.summary || 'No summary'}`);
+            console.log(`      Status: ${ticket.fields?.status?.name || 'Unknown'}`);
+            console.log(`      Type: ${ticket.fields?.issuetype?.name || 'Unknown'}`);
+            console.log(`      Priority: ${ticket.fields?.priority?.name || 'Unknown'}`);
           });
         } else {
           console.log(`   ⚠️ No tickets found`);
@@ -125,7 +125,7 @@ class EnhancedJiraQuery {
     console.log("-".repeat(30));
 
     try {
-      const projects = await this.client.getJiraProjects();
+      const projects = await this.client.getProjects();
       
       if (projects && projects.length > 0) {
         console.log(`✅ Found ${projects.length} project(s):`);
@@ -8,6 +8,7 @@
  */
 
 import { AtlassianMCPClient } from "../client/atlassian-mcp-client.js";
+import type { JiraIssue } from "../client/types/jira.js";
 
 class JiraTicketFetcher {
   private client: AtlassianMCPClient;
@@ -42,6 +43,9 @@ class JiraTicketFetcher {
       // Step 6: Get ticket details
       await this.getTicketDetails();
 
+      // Step 7: Walk every unresolved ticket across all pages
+      await this.summarizeUnresolvedTickets();
+
     } catch (error) {
       console.error("❌ Failed to fetch Jira tickets:", error);
       throw error;
@@ -101,7 +105,7 @@ class JiraTicketFetcher {
     console.log("📋 Getting Jira projects...");
     
     try {
-      const projects = await this.client.getJiraProjects();
+      const projects = await this.client.getProjects();
       
       if (projects && projects.length > 0) {
         console.log(`✅ Found ${projects.length} Jira project(s):`);
@@ -127,7 +131,7 @@ class JiraTicketFetcher {
     try {
       // Get recent tickets across all projects
       const jql = "ORDER BY updated DESC";
-      const tickets = await this.client.searchJiraIssues(jql, 10);
+      const { issues: tickets } = await this.client.searchIssues(jql, { maxResults: 10 });
       
       if (tickets && tickets.length > 0) {
         console.log(`✅ Found ${tickets.length} recent ticket(s):`);
@@ -159,14 +163,14 @@ class JiraTicketFetcher {
     for (const query of searchQueries) {
       try {
         console.log(`\n🔎 ${query.name}:`);
-        const tickets = await this.client.searchJiraIssues(query.jql, 5);
+        const { issues: tickets } = await this.client.searchIssues(query.jql, { maxResults: 5 });
         
         if (tickets && tickets.length > 0) {
           console.log(`   ✅ Found ${tickets.length} ticket(s)`);
           tickets.forEach((ticket, index) => {
-            console.log(`   ${index + 1}. ${ticket.key}: ${(ticket as any).fields?.summary || 'No summary'}`);
-            console.log(`      Status: ${(ticket as any).fields?.status?.name || 'Unknown'}`);
-            console.log(`      Priority: ${(ticket as any).fields?.priority?.name || 'Unknown'}`);
+            console.log(`   ${index + 1}. ${ticket.key}: ${ticket.fields?.summary || 'No summary'}`);
+            console.log(`      Status: ${ticket.fields?.status?.name || 'Unknown'}`);
+            console.log(`      Priority: ${ticket.fields?.priority?.name || 'Unknown'}`);
           });
         } else {
           console.log(`   ⚠️ No tickets found for: ${query.name}`);
@@ -184,15 +188,15 @@ class JiraTicketFetcher {
     
     try {
       // First, get a ticket key from recent tickets
-      const recentTickets = await this.client.searchJiraIssues("ORDER BY updated DESC", 1);
+      const { issues: recentTickets } = await this.client.searchIssues("ORDER BY updated DESC", { maxResults: 1 });
       
       if (recentTickets && recentTickets.length > 0) {
         const ticketKey = recentTickets[0]?.key;
         if (ticketKey) {
           console.log(`🎫 Getting details for ticket: ${ticketKey}`);
           
-          // Use the getJiraIssue method
-          const ticketDetails = await this.client.getJiraIssue(ticketKey);
+          // Use the getIssue method
+          const ticketDetails = await this.client.getIssue(ticketKey);
           
           if (ticketDetails) {
             this.displayTicketDetails(ticketDetails);
@@ -210,22 +214,51 @@ class JiraTicketFetcher {
     console.log();
   }
 
-  private displayTicketSummary(ticket: any, index: number): void {
-    console.log(`${index}. 🎫 ${ticket.key}: ${(ticket as any).fields?.summary || 'No summary'}`);
-    console.log(`   📊 Status: ${(ticket as any).fields?.status?.name || 'Unknown'}`);
-    console.log(`   🚀 Priority: ${(ticket as any).fields?.priority?.name || 'Unknown'}`);
-    console.log(`   👤 Assignee: ${(ticket as any).fields?.assignee?.displayName || 'Unassigned'}`);
-    console.log(`   📅 Updated: ${(ticket as any).fields?.updated ? new Date((ticket as any).fields.updated).toLocaleDateString() : 'Unknown'}`);
-    console.log(`   🏷️  Type: ${(ticket as any).fields?.issuetype?.name || 'Unknown'}`);
+  private async summarizeUnresolvedTickets(): Promise<void> {
+    console.log("📊 Summarizing all unresolved tickets...");
+
+    try {
+      const byStatus = new Map<string, number>();
+      let total = 0;
+
+      // Pages are fetched on demand, 100 issues at a time, up to 2000 issues
+      for await (const ticket of this.client.iterateJql("resolution = Unresolved ORDER BY created DESC", {
+        fields: ["status"],
+        pageSize: 100,
+        limit: 2000
+      })) {
+        const status = ticket.fields?.status?.name || "Unknown";
+        byStatus.set(status, (byStatus.get(status) ?? 0) + 1);
+        total++;
+      }
+
+      console.log(`✅ ${total} unresolved ticket(s):`);
+      byStatus.forEach((count, status) => {
+        console.log(`   ${status}: ${count}`);
+      });
+    } catch (error) {
+      console.log("⚠️ Error summarizing unresolved tickets:", error);
+    }
+
+    console.log();
+  }
+
+  private displayTicketSummary(ticket: JiraIssue, index: number): void {
+    console.log(`${index}. 🎫 ${ticket.key}: ${ticket.fields?.summary || 'No summary'}`);
+    console.log(`   📊 Status: ${ticket.fields?.status?.name || 'Unknown'}`);
+    console.log(`   🚀 Priority: ${ticket.fields?.priority?.name || 'Unknown'}`);
+    console.log(`   👤 Assignee: ${ticket.fields?.assignee?.displayName || 'Unassigned'}`);
+    console.log(`   📅 Updated: ${ticket.fields?.updated ? new Date(ticket.fields.updated).toLocaleDateString() : 'Unknown'}`);
+    console.log(`   🏷️  Type: ${ticket.fields?.issuetype?.name || 'Unknown'}`);
     
-    if ((ticket as any).fields?.project) {
-      console.log(`   📋 Project: ${(ticket as any).fields.project.name} (${(ticket as any).fields.project.key})`);
+    if (ticket.fields?.project) {
+      console.log(`   📋 Project: ${ticket.fields.project.name} (${ticket.fields.project.key})`);
     }
     
     console.log();
   }
 
-  private displayTicketDetails(ticket: any): void {
+  private displayTicketDetails(ticket: JiraIssue): void {
     console.log("=".repeat(50));
     console.log(`🎫 TICKET DETAILS: ${ticket.key}`);
     console.log("=".repeat(50));
@@ -252,7 +285,7 @@ class JiraTicketFetcher {
     }
     
     if (ticket.fields?.components && ticket.fields.components.length > 0) {
-      console.log(`🔧 Components: ${ticket.fields.components.map((c: any) => c.name).join(', ')}`);
+      console.log(`🔧 Components: ${ticket.fields.components.map(c => c.name).join(', ')}`);
     }
     
     if (ticket.fields?.labels && ticket.fields.labels.length > 0) {
@@ -8,14 +8,15 @@
  */
 
 import { AtlassianMCPClient } from "../client/atlassian-mcp-client.js";
+import type { ConfluenceSearchHit, ConfluenceSpace } from "../client/types/confluence.js";
 
 interface DemoResults {
   userInfo?: any;
   resources?: any[];
   jiraProjects?: any[];
-  confluenceSpaces?: any[];
+  confluenceSpaces?: ConfluenceSpace[];
   recentJiraIssues?: any[];
-  recentConfluencePages?: any[];
+  recentConfluencePages?: ConfluenceSearchHit[];
 }
 
 class RealDataDemo {
@@ -103,7 +104,7 @@ class RealDataDemo {
     
     try {
       // Get Jira projects
-      this.results.jiraProjects = await this.client.getJiraProjects();
+      this.results.jiraProjects = await this.client.getProjects();
       
       if (this.results.jiraProjects && this.results.jiraProjects.length > 0) {
         console.log(`✅ Found ${this.results.jiraProjects.length} Jira project(s):`);
@@ -137,7 +138,7 @@ class RealDataDemo {
       const firstProject = this.results.jiraProjects[0];
       const jql = `project = "${firstProject.key}" ORDER BY updated DESC`;
       
-      this.results.recentJiraIssues = await this.client.searchJiraIssues(jql, 10);
+      this.results.recentJiraIssues = (await this.client.searchIssues(jql, { maxResults: 10 })).issues;
       
       if (this.results.recentJiraIssues && this.results.recentJiraIssues.length > 0) {
         console.log(`✅ Found ${this.results.recentJiraIssues.length} recent issue(s) in ${firstProject.name}:`);
@@ -163,7 +164,7 @@ class RealDataDemo {
     
     try {
       // Get Confluence spaces
-      this.results.confluenceSpaces = await this.client.getConfluenceSpaces();
+      this.results.confluenceSpaces = await this.client.listSpaces();
       
       if (this.results.confluenceSpaces && this.results.confluenceSpaces.length > 0) {
         console.log(`✅ Found ${this.results.confluenceSpaces.length} Confluence space(s):`);
@@ -194,16 +195,17 @@ class RealDataDemo {
     console.log("📄 Fetching recent Confluence pages...");
     
     try {
-      const firstSpace = this.results.confluenceSpaces[0];
+      const firstSpace = this.results.confluenceSpaces[0]!;
+      const cql = `space = "${firstSpace.key}" AND type = page ORDER BY lastmodified DESC`;
       
-      this.results.recentConfluencePages = await this.client.getPagesInSpace(firstSpace.key, 10);
+      this.results.recentConfluencePages = (await this.client.searchWithCql(cql, { limit: 10 })).results;
       
       if (this.results.recentConfluencePages && this.results.recentConfluencePages.length > 0) {
         console.log(`✅ Found ${this.results.recentConfluencePages.length} page(s) in ${firstSpace.name}:`);
         
         this.results.recentConfluencePages.slice(0, 5).forEach((page, index) => {
           console.log(`  ${index + 1}. ${page.title}`);
-          console.log(`     Updated: ${page.version?.when ? new Date(page.version.when).toLocaleDateString() : 'Unknown'}`);
+          console.log(`     Updated: ${page.lastModified ? new Date(page.lastModified).toLocaleDateString() : 'Unknown'}`);
         });
         
         if (this.results.recentConfluencePages.length > 5) {
@@ -48,7 +48,7 @@ class JiraTicketManagement {
     console.log("-".repeat(40));
     
     try {
-      const ticket = await this.client.getJiraIssue("MD-1");
+      const ticket = await this.client.getIssue("MD-1");
       
       if (ticket) {
         console.log("✅ FULL TICKET DETAILS:");
@@ -81,7 +81,7 @@ class JiraTicketManagement {
         }
         
         if (ticket.fields?.components && ticket.fields.components.length > 0) {
-          console.log(`🔧 Components: ${ticket.fields.components.map((c: any) => c.name).join(', ')}`);
+          console.log(`🔧 Components: ${ticket.fields.components.map(c => c.name).join(', ')}`);
         }
         
         if (ticket.fields?.labels && ticket.fields.labels.length > 0) {
@@ -105,10 +105,10 @@ class JiraTicketManagement {
     try {
       console.log(`\n🔄 Available transitions for ${issueKey}:`);
       
-      const transitions = await this.client.getJiraIssueTransitions(issueKey);
+      const transitions = await this.client.getTransitions(issueKey);
       
       if (transitions && transitions.length > 0) {
-        transitions.forEach((transition: any, index: number) => {
+        transitions.forEach((transition, index) => {
           console.log(`   ${index + 1}. ${transition.name} (ID: ${transition.id})`);
         });
       } else {
@@ -124,7 +124,7 @@ class JiraTicketManagement {
     console.log("-".repeat(30));
 
     try {
-      const projects = await this.client.getJiraProjects();
+      const projects = await this.client.getProjects();
       
       if (projects && projects.length > 0) {
         console.log(`✅ Found ${projects.length} project(s):`);
@@ -179,23 +179,23 @@ class JiraTicketManagement {
     console.log("🔧 **Example Usage:**");
     console.log();
     console.log("   // Create a new ticket");
-    console.log("   const newTicket = await client.createJiraIssue(");
-    console.log("     'MD', // project key");
-    console.log("     'Test ticket from MCP client',");
-    console.log("     'This ticket was created via the MCP API',");
-    console.log("     'Task'");
-    console.log("   );");
+    console.log("   const newTicket = await client.createIssue({");
+    console.log("     projectKey: 'MD',");
+    console.log("     issueTypeName: 'Task',");
+    console.log("     summary: 'Test ticket from MCP client',");
+    console.log("     description: 'This ticket was created via the MCP API'");
+    console.log("   });");
     console.log();
     
     console.log("   // Update a ticket");
-    console.log("   await client.updateJiraIssue('MD-1', {");
+    console.log("   await client.editIssue('MD-1', {");
     console.log("     summary: 'Updated summary',");
     console.log("     description: 'Updated description'");
     console.log("   });");
     console.log();
     
     console.log("   // Search with custom JQL");
-    console.log("   const tickets = await client.searchJiraIssues(");
+    console.log("   const { issues } = await client.searchIssues(");
     console.log("     'project = MD AND status = \"To Do\"'");
     console.log("   );");
     console.log();
@@ -42,7 +42,7 @@ async function testConnection() {
     });
 
     console.log("\n🎯 Testing Jira projects...");
-    const projects = await client.getJiraProjects();
+    const projects = await client.getProjects();
     console.log(`📊 Found ${projects.length} Jira projects`);
 
     await client.disconnect();
@@ -2,48 +2,61 @@
 
 /**
  * Direct MCP Remote Starter
- * 
- * Starts the mcp-remote proxy directly without prompts
+ *
+ * Starts the mcp-remote proxy directly without prompts, launched the same way
+ * the client launches it (ATLASSIAN_MCP_COMMAND, ATLASSIAN_MCP_ARGS, ...).
+ * Messages go to stderr, so MCP hosts can run this as a stdio server.
  */
 
 import { spawn } from "child_process";
+import {
+  connectionFromEnv,
+  getConnectionUrl,
+  getStdioLaunch
+} from "../client/transport/transport-factory.js";
 
-console.log("🚀 Starting Atlassian MCP Remote Proxy");
-console.log("=====================================");
-console.log();
-console.log("📡 Connecting to: https://mcp.atlassian.com/v1/sse");
-console.log("🔧 Using mcp-remote@0.1.13");
-console.log();
-
-const mcpProcess = spawn("npx", [
-  "-y",
-  "mcp-remote@0.1.13", 
-  "https://mcp.atlassian.com/v1/sse"
-], {
-  stdio: "inherit"
+const connection = connectionFromEnv();
+const launch = getStdioLaunch(connection);
+
+if (!launch) {
+  console.error(`❌ ATLASSIAN_MCP_TRANSPORT=${connection.type} does not start a process; use mcp-remote or stdio`);
+  process.exit(1);
+}
+
+console.error("🚀 Starting Atlassian MCP Remote Proxy");
+console.error("=====================================");
+console.error();
+console.error(`📡 Connecting to: ${getConnectionUrl(connection)}`);
+console.error(`🔧 Running: ${[launch.command, ...launch.args ?? []].join(" ")}`);
+console.error();
+
+const mcpProcess = spawn(launch.command, launch.args ?? [], {
+  stdio: "inherit",
+  env: { ...process.env, ...launch.env },
+  ...(launch.cwd && { cwd: launch.cwd })
 });
 
 mcpProcess.on("error", (error) => {
-  console.error("❌ Error starting mcp-remote:", error.message);
+  console.error(`❌ Error starting ${launch.command}:`, error.message);
   process.exit(1);
 });
 
 mcpProcess.on("exit", (code, signal) => {
   if (code !== 0) {
-    console.error(`❌ mcp-remote exited with code ${code}, signal ${signal}`);
+    console.error(`❌ ${launch.command} exited with code ${code}, signal ${signal}`);
   } else {
-    console.log("✅ mcp-remote session ended normally");
+    console.error(`✅ ${launch.command} session ended normally`);
   }
   process.exit(code || 0);
 });
 
 // Handle Ctrl+C gracefully
 process.on("SIGINT", () => {
-  console.log("\n\n🛑 Stopping mcp-remote...");
+  console.error(`\n\n🛑 Stopping ${launch.command}...`);
   mcpProcess.kill("SIGTERM");
 });
 
-console.log("🌐 Browser will open for OAuth authentication...");
-console.log("📋 After authentication, the proxy will be ready for MCP clients");
-console.log("🔄 Press Ctrl+C to stop when done");
-console.log();
+console.error("🌐 Browser will open for OAuth authentication...");
+console.error("📋 After authentication, the proxy will be ready for MCP clients");
+console.error("🔄 Press Ctrl+C to stop when done");
+console.error();
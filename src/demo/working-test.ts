@@ -37,10 +37,10 @@ async function workingDemo() {
     // Test 2: Get Jira projects
     console.log("\n2️⃣ Getting Jira projects...");
     try {
-      const projects = await client.getJiraProjects();
+      const projects = await client.getProjects();
       console.log(`✅ Found ${projects.length} Jira projects!`);
       if (projects.length > 0) {
-        console.log(`📋 First project: ${projects[0].name || projects[0].key}`);
+        console.log(`📋 First project: ${projects[0]?.name || projects[0]?.key}`);
       }
     } catch (error: any) {
       console.log("⚠️ Jira projects error:", error?.message || error);
@@ -49,10 +49,10 @@ async function workingDemo() {
     // Test 3: Get Confluence spaces
     console.log("\n3️⃣ Getting Confluence spaces...");
     try {
-      const spaces = await client.getConfluenceSpaces();
+      const spaces = await client.listSpaces();
       console.log(`✅ Found ${spaces.length} Confluence spaces!`);
       if (spaces.length > 0) {
-        console.log(`📖 First space: ${spaces[0].name || spaces[0].key}`);
+        console.log(`📖 First space: ${spaces[0]?.name || spaces[0]?.key}`);
       }
     } catch (error: any) {
       console.log("⚠️ Confluence spaces error:", error?.message || error);
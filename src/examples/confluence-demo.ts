@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { AtlassianMCPClient } from '../client/atlassian-client.js';
+import { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
 import { loadConfig } from '../config/atlassian-config.js';
 import { createConsoleLogger } from '../utils/logger.js';
 
@@ -19,8 +19,10 @@ async function runConfluenceDemo() {
     
     // Create client
     const client = new AtlassianMCPClient({
-      config,
-      logger
+      connection: { type: 'oauth', atlassian: config.atlassian },
+      logger,
+      maxRetries: config.rateLimit.maxRetries,
+      rateLimit: config.rateLimit
     });
     
     // Connect to MCP server
@@ -31,10 +33,8 @@ async function runConfluenceDemo() {
     // Demo 1: Search Confluence content
     logger.info('\n--- Demo 1: Search Confluence Content ---');
     try {
-      const searchResults = await client.searchConfluenceContent({
-        cql: 'type=page AND space=TEST ORDER BY lastModified DESC',
-        limit: 5,
-        expand: ['content.version', 'space', 'history.lastUpdated']
+      const searchResults = await client.searchWithCql('type=page AND space=TEST ORDER BY lastModified DESC', {
+        limit: 5
       });
       
       logger.info('Search Results:', JSON.stringify(searchResults, null, 2));
@@ -45,10 +45,16 @@ async function runConfluenceDemo() {
     // Demo 2: Create a new Confluence page
     logger.info('\n--- Demo 2: Create Confluence Page ---');
     try {
-      const newPage = await client.createConfluencePage({
-        spaceKey: 'TEST',
+      // Pages are created by space id, so look the space up by key first
+      const [space] = await client.listSpaces({ keys: ['TEST'] });
+      if (!space) {
+        throw new Error('Space TEST not found');
+      }
+
+      const newPage = await client.createPage({
+        spaceId: space.id,
         title: `Demo Page - ${new Date().toISOString()}`,
-        content: `
+        body: `
           <h1>Demo Page</h1>
           <p>This is a demo page created by the Atlassian MCP Client at ${new Date().toLocaleString()}.</p>
           <h2>Features</h2>
@@ -68,11 +74,8 @@ async function runConfluenceDemo() {
     // Demo 3: Search with different parameters
     logger.info('\n--- Demo 3: Advanced Search ---');
     try {
-      const advancedSearch = await client.searchConfluenceContent({
-        cql: 'text ~ "demo" AND type=page',
-        limit: 10,
-        start: 0,
-        expand: ['content.version', 'space', 'ancestors']
+      const advancedSearch = await client.searchWithCql('text ~ "demo" AND type=page', {
+        limit: 10
       });
       
       logger.info('Advanced Search Results:', JSON.stringify(advancedSearch, null, 2));
@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
 import inquirer from 'inquirer';
-import { AtlassianMCPClient } from '../client/atlassian-client.js';
+import { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
 import { loadConfig } from '../config/atlassian-config.js';
 import { createConsoleLogger } from '../utils/logger.js';
 
@@ -22,8 +22,10 @@ async function runInteractiveCLI() {
     
     // Create client
     const client = new AtlassianMCPClient({
-      config,
-      logger
+      connection: { type: 'oauth', atlassian: config.atlassian },
+      logger,
+      maxRetries: config.rateLimit.maxRetries,
+      rateLimit: config.rateLimit
     });
     
     // Connect to MCP server
@@ -102,8 +104,7 @@ async function handleJiraSearch(client: AtlassianMCPClient, logger: any) {
   ]);
   
   try {
-    const results = await client.searchJiraIssues({
-      jql,
+    const results = await client.searchIssues(jql, {
       maxResults: 5,
       fields: ['key', 'summary', 'status', 'assignee']
     });
@@ -143,12 +144,12 @@ async function handleJiraCreate(client: AtlassianMCPClient, logger: any) {
   ]);
   
   try {
-    const result = await client.createJiraIssue({
+    const result = await client.createIssue({
       projectKey: answers.projectKey,
+      issueTypeName: answers.issueType,
       summary: answers.summary,
       description: answers.description || '',
-      issueType: answers.issueType,
-      labels: ['mcp-demo']
+      additionalFields: { labels: ['mcp-demo'] }
     });
     
     console.log('\n✅ Issue Created:');
@@ -169,11 +170,7 @@ async function handleConfluenceSearch(client: AtlassianMCPClient, logger: any) {
   ]);
   
   try {
-    const results = await client.searchConfluenceContent({
-      cql,
-      limit: 5,
-      expand: ['content.version', 'space']
-    });
+    const results = await client.searchWithCql(cql, { limit: 5 });
     
     console.log('\n📊 Search Results:');
     console.log(JSON.stringify(results, null, 2));
@@ -205,10 +202,15 @@ async function handleConfluenceCreate(client: AtlassianMCPClient, logger: any) {
   ]);
   
   try {
-    const result = await client.createConfluencePage({
-      spaceKey: answers.spaceKey,
+    const [space] = await client.listSpaces({ keys: [answers.spaceKey] });
+    if (!space) {
+      throw new Error(`Space ${answers.spaceKey} not found`);
+    }
+
+    const result = await client.createPage({
+      spaceId: space.id,
       title: answers.title,
-      content: answers.content
+      body: answers.content
     });
     
     console.log('\n✅ Page Created:');
@@ -220,7 +222,7 @@ async function handleConfluenceCreate(client: AtlassianMCPClient, logger: any) {
 
 async function handleListTools(client: AtlassianMCPClient, logger: any) {
   try {
-    const tools = await client.getAvailableTools();
+    const tools = await client.listTools();
     
     console.log('\n🛠️  Available Tools:');
     tools.forEach((tool: any) => {
@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { AtlassianMCPClient } from '../client/atlassian-client.js';
+import { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
 import { loadConfig } from '../config/atlassian-config.js';
 import { createConsoleLogger } from '../utils/logger.js';
 
@@ -19,8 +19,10 @@ async function runJiraDemo() {
     
     // Create client
     const client = new AtlassianMCPClient({
-      config,
-      logger
+      connection: { type: 'oauth', atlassian: config.atlassian },
+      logger,
+      maxRetries: config.rateLimit.maxRetries,
+      rateLimit: config.rateLimit
     });
     
     // Connect to MCP server
@@ -31,8 +33,7 @@ async function runJiraDemo() {
     // Demo 1: Search for Jira issues
     logger.info('\n--- Demo 1: Search Jira Issues ---');
     try {
-      const searchResults = await client.searchJiraIssues({
-        jql: 'project = TEST AND status != Done ORDER BY created DESC',
+      const searchResults = await client.searchIssues('project = TEST AND status != Done ORDER BY created DESC', {
         maxResults: 5,
         fields: ['key', 'summary', 'status', 'assignee', 'created']
       });
@@ -45,13 +46,15 @@ async function runJiraDemo() {
     // Demo 2: Create a new Jira issue
     logger.info('\n--- Demo 2: Create Jira Issue ---');
     try {
-      const newIssue = await client.createJiraIssue({
+      const newIssue = await client.createIssue({
         projectKey: 'TEST',
+        issueTypeName: 'Task',
         summary: `Demo Issue - ${new Date().toISOString()}`,
         description: 'This is a demo issue created by the Atlassian MCP Client',
-        issueType: 'Task',
-        priority: 'Medium',
-        labels: ['demo', 'mcp-client']
+        additionalFields: {
+          priority: { name: 'Medium' },
+          labels: ['demo', 'mcp-client']
+        }
       });
       
       logger.info('Created Issue:', JSON.stringify(newIssue, null, 2));
@@ -62,9 +65,9 @@ async function runJiraDemo() {
     // Demo 3: Get available tools
     logger.info('\n--- Demo 3: Available Tools ---');
     try {
-      const tools = await client.getAvailableTools();
+      const tools = await client.listTools();
       logger.info('Available Tools:');
-      tools.forEach((tool: any) => {
+      tools.forEach(tool => {
         logger.info(`- ${tool.name}: ${tool.description}`);
       });
     } catch (error) {
@@ -4,6 +4,14 @@ import { Command } from 'commander';
 import { AtlassianMCPClient } from './client/atlassian-mcp-client';
 import { SimpleAIAtlassianCLI } from './cli/ai-cli';
 import { EnhancedInteractiveCLI } from './cli/enhanced-interactive-cli';
+import { printSites } from './cli/site-commands';
+import type { CLIOptions } from './cli/cli-options';
+import { printAuditRecords, printAuditVerification } from './cli/audit-commands';
+import { checkEnvironment, printDoctorChecks, printHealthReport } from './cli/doctor';
+import { ServerContext, handleServerContextCommand, parsePromptArguments, promptToQuery } from './cli/server-context';
+import { AuditLog, type AuditFilter } from './client/audit-log';
+import { MultiServerClient, type ServerFailure } from './client/multi-server-client';
+import { isEmptyDiff } from './client/cache/tool-catalog-cache';
 
 const program = new Command();
 
@@ -15,9 +23,11 @@ program
 program
   .command('ai')
   .description('Start AI-powered interactive session')
-  .action(async () => {
+  .option('--dry-run', 'Preview changes to Jira and Confluence instead of making them')
+  .option('--mcp-config [path]', 'Also use the MCP servers in this config (default: mcp.json)')
+  .action(async (options: CLIOptions) => {
     try {
-      const cli = new SimpleAIAtlassianCLI();
+      const cli = new SimpleAIAtlassianCLI(options);
       await cli.start();
     } catch (error) {
       console.error('AI session failed:', error);
@@ -28,9 +38,11 @@ program
 program
   .command('enhanced')
   .description('Start enhanced AI-powered multi-step interactive session')
-  .action(async () => {
+  .option('--dry-run', 'Preview changes to Jira and Confluence instead of making them')
+  .option('--mcp-config [path]', 'Also use the MCP servers in this config (default: mcp.json)')
+  .action(async (options: CLIOptions) => {
     try {
-      const cli = new EnhancedInteractiveCLI();
+      const cli = new EnhancedInteractiveCLI(options);
       await cli.start();
     } catch (error) {
       console.error('Enhanced AI session failed:', error);
@@ -65,28 +77,288 @@ program
 
 program
   .command('tools')
-  .description('List available MCP tools')
-  .action(async () => {
+  .description('List available MCP tools (from the local cache when it is fresh)')
+  .option('--refresh', 'Fetch the catalog from the server even if the cache is fresh')
+  .action(async (options: { refresh?: boolean }) => {
     try {
       const client = new AtlassianMCPClient();
-      await client.connect();
 
-      const tools = await client.listTools();
-      console.log(`\n📋 Available MCP Tools (${tools.length}):`);
+      let catalog = options.refresh ? null : await client.getCachedToolCatalog();
+      if (!catalog) {
+        // connect() fetches tools/list and saves it, recording the diff shown below
+        await client.connect();
+        catalog = await client.getCachedToolCatalog({ allowStale: true });
+        await client.disconnect();
+      }
+
+      if (!catalog) {
+        throw new Error('Tool catalog is not available');
+      }
+
+      const server = catalog.serverVersion ? `${catalog.serverVersion.name} ${catalog.serverVersion.version}` : 'unknown server';
+      console.log(`\n📋 Available MCP Tools (${catalog.tools.length}):`);
+      console.log(`   Fetched ${new Date(catalog.fetchedAt).toLocaleString()} from ${server}`);
       console.log('=====================================');
 
-      tools.forEach((tool: any, index: number) => {
+      catalog.tools.forEach((tool, index) => {
         console.log(`\n${index + 1}. ${tool.name}`);
         console.log(`   Description: ${tool.description || 'No description available'}`);
       });
 
-      await client.disconnect();
+      const diff = client.getLastToolCatalogDiff();
+      if (diff) {
+        console.log('\n🔄 Changes since last fetch:');
+        if (isEmptyDiff(diff)) {
+          console.log('   No changes');
+        }
+        diff.added.forEach(name => console.log(`   + ${name}`));
+        diff.removed.forEach(name => console.log(`   - ${name}`));
+        diff.changed.forEach(name => console.log(`   ~ ${name}`));
+      }
     } catch (error) {
       console.error('Failed to list tools:', error);
       process.exit(1);
     }
   });
 
+program
+  .command('servers [config]')
+  .description('Connect to every server in an mcp.json-style config and list their namespaced tools')
+  .action(async (config: string | undefined) => {
+    try {
+      const servers = MultiServerClient.fromConfigFile(config ?? 'mcp.json');
+      servers.on('serverFailed', ({ server, error }: ServerFailure) => {
+        console.log(`❌ ${server}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+
+      await servers.connect();
+      const tools = await servers.listTools();
+      // disconnect() forgets which servers were connected
+      const connected = servers.getConnectedServers();
+      await servers.disconnect();
+
+      for (const server of connected) {
+        const own = tools.filter(tool => tool.name.startsWith(`${server}.`));
+        console.log(`\n🔌 ${server} (${own.length} tools)`);
+        console.log('=====================================');
+        own.forEach(tool => console.log(`   ${tool.name}`));
+      }
+    } catch (error) {
+      console.error('Failed to connect to the MCP servers:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('capabilities')
+  .description('Show which client operations the server supports and the tool used for each')
+  .action(async () => {
+    try {
+      const client = new AtlassianMCPClient();
+      await client.connect();
+
+      const report = client.getCapabilities();
+      await client.disconnect();
+      if (!report) {
+        throw new Error('The server did not list its tools');
+      }
+
+      const supported = Object.entries(report.supported);
+      console.log(`\n🧭 Supported operations (${supported.length}):`);
+      console.log('=====================================');
+      supported.forEach(([operation, tool]) => console.log(`   ✅ ${operation} → ${tool}`));
+
+      if (report.missing.length > 0) {
+        console.log(`\n🚫 Not available (${report.missing.length}):`);
+        report.missing.forEach(operation => console.log(`   ❌ ${operation}`));
+      }
+    } catch (error) {
+      console.error('Failed to check capabilities:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('sites')
+  .description('List accessible Atlassian sites and their scopes')
+  .action(async () => {
+    try {
+      const client = new AtlassianMCPClient();
+      await client.connect();
+
+      const sites = await client.getAccessibleResources();
+      console.log(`\n🌐 Accessible Atlassian Sites (${sites.length}):`);
+      console.log('=====================================');
+      printSites(sites, client.getActiveSite());
+
+      await client.disconnect();
+    } catch (error) {
+      console.error('Failed to list sites:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('resources [uri]')
+  .description('List the resources the MCP server offers, or show one')
+  .action(async (uri?: string) => {
+    try {
+      const client = new AtlassianMCPClient();
+      await client.connect();
+
+      if (!uri) {
+        console.log('\n📚 MCP Resources:');
+        console.log('=====================================');
+      }
+      await handleServerContextCommand(client, uri ? `read ${uri}` : 'resources', new ServerContext());
+
+      await client.disconnect();
+    } catch (error) {
+      console.error('Failed to read resources:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('prompts [name] [args...]')
+  .description('List the prompts the MCP server offers, or render one with key=value arguments')
+  .action(async (name?: string, args: string[] = []) => {
+    try {
+      const client = new AtlassianMCPClient();
+      await client.connect();
+
+      if (name) {
+        console.log(promptToQuery(await client.getPrompt(name, parsePromptArguments(args))));
+      } else {
+        console.log('\n📝 MCP Prompts:');
+        console.log('=====================================');
+        await handleServerContextCommand(client, 'prompts', new ServerContext());
+      }
+
+      await client.disconnect();
+    } catch (error) {
+      console.error('Failed to read prompts:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('health')
+  .description('Connect and report ping latency, protocol, server, site and tool details')
+  .option('--json', 'Print the report as JSON')
+  .action(async (options: { json?: boolean }) => {
+    try {
+      const client = new AtlassianMCPClient();
+      await client.connect();
+
+      const health = await client.healthCheck();
+      if (options.json) {
+        console.log(JSON.stringify(health, null, 2));
+      } else {
+        printHealthReport(health);
+      }
+
+      await client.disconnect();
+      process.exit(health.overall ? 0 : 1);
+    } catch (error) {
+      console.error('Health check failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('doctor')
+  .description('Check the local setup, then connect and print a health report')
+  .action(async () => {
+    const client = new AtlassianMCPClient();
+
+    console.log('\n🩺 Environment:');
+    console.log('=====================================');
+    const checks = await checkEnvironment(client);
+    printDoctorChecks(checks);
+
+    console.log('\n🔌 Connection:');
+    console.log('=====================================');
+    try {
+      await client.connect();
+    } catch (error) {
+      console.log(`❌ Could not connect: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const health = await client.healthCheck();
+    printHealthReport(health);
+    await client.disconnect();
+
+    const healthy = health.overall && checks.every(check => check.status !== 'fail');
+    console.log(healthy ? '\n✅ Everything looks good' : '\n❌ Some checks failed');
+    process.exit(healthy ? 0 : 1);
+  });
+
+program
+  .command('audit')
+  .description('List write tool calls from the audit log, or verify its hash chain')
+  .option('--verify', 'Check that no record was altered, removed or reordered')
+  .option('--tool <name>', 'Only calls of this tool')
+  .option('--actor <actor>', 'Only calls made by this actor')
+  .option('--query <text>', 'Only calls whose originating query contains this text')
+  .option('--since <date>', 'Only calls at or after this date')
+  .option('--until <date>', 'Only calls at or before this date')
+  .option('--failed', 'Only calls that failed')
+  .option('--limit <count>', 'Show only the most recent records', value => parseInt(value, 10))
+  .option('--json', 'Print records as JSON lines')
+  .option('--file <path>', 'Audit log to read (default: ATLASSIAN_MCP_AUDIT_LOG or ./.mcp-audit/audit.jsonl)')
+  .action(async (options: {
+    verify?: boolean;
+    tool?: string;
+    actor?: string;
+    query?: string;
+    since?: string;
+    until?: string;
+    failed?: boolean;
+    limit?: number;
+    json?: boolean;
+    file?: string;
+  }) => {
+    try {
+      const auditLog = new AuditLog(options.file ? { path: options.file } : {});
+
+      if (options.verify) {
+        const verification = await auditLog.verify();
+        printAuditVerification(auditLog.path, verification);
+        if (!verification.valid) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      const filter: AuditFilter = {
+        ...(options.tool && { tool: options.tool }),
+        ...(options.actor && { actor: options.actor }),
+        ...(options.query && { query: options.query }),
+        ...(options.since && { since: new Date(options.since) }),
+        ...(options.until && { until: new Date(options.until) }),
+        ...(options.failed && { outcome: 'error' as const })
+      };
+
+      let records = await auditLog.read(filter);
+      if (options.limit !== undefined) {
+        records = records.slice(-options.limit);
+      }
+
+      if (options.json) {
+        records.forEach(record => console.log(JSON.stringify(record)));
+        return;
+      }
+
+      console.log(`\n📜 Audit Log (${records.length} record(s) in ${auditLog.path}):`);
+      console.log('=====================================');
+      printAuditRecords(records);
+    } catch (error) {
+      console.error('Failed to read the audit log:', error);
+      process.exit(1);
+    }
+  });
+
 program.parse();
 
 export { AtlassianMCPClient, SimpleAIAtlassianCLI, EnhancedInteractiveCLI };
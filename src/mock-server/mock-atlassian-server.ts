@@ -0,0 +1,638 @@
+/**
+ * Mock Atlassian MCP server
+ *
+ * Implements the Atlassian tool surface the client relies on over an in-memory
+ * dataset, so the client, CLIs and demos can be exercised without an Atlassian
+ * site. Served over stdio or Streamable HTTP by run.ts; tests can start the
+ * HTTP server in-process with startMockHttpServer().
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { JiraIssue, JiraIssueFields } from '../client/types/jira.js';
+import type { ConfluencePage } from '../client/types/confluence.js';
+import {
+  MOCK_ISSUE_TYPES,
+  MOCK_SITE_URL,
+  MOCK_STATUSES,
+  MOCK_TRANSITIONS,
+  createSeedData,
+  toUserInfo,
+  type MockDataset
+} from './seed-data.js';
+import { QueryError, confluencePageFields, jiraIssueFields, runQuery } from './query.js';
+
+export const MOCK_SERVER_NAME = 'atlassian-mock';
+
+export interface MockHttpServerOptions {
+  /** Port to listen on; 0 picks a free one (default: 0) */
+  port?: number;
+  host?: string;
+  /** Data shared by every request (default: a fresh seed) */
+  dataset?: MockDataset;
+}
+
+export interface MockHttpServer {
+  /** Streamable HTTP endpoint, e.g. http://127.0.0.1:3999/mcp */
+  url: string;
+  dataset: MockDataset;
+  close(): Promise<void>;
+}
+
+/** Error the mock reports as a failed tool call, like the real server does */
+class MockToolError extends Error {}
+
+const READ_ONLY = { readOnlyHint: true, openWorldHint: false };
+const WRITE = { readOnlyHint: false, destructiveHint: false, openWorldHint: false };
+
+/**
+ * Create an MCP server exposing the Atlassian tools over the given dataset
+ */
+export function createMockAtlassianServer(dataset: MockDataset = createSeedData()): McpServer {
+  const server = new McpServer({ name: MOCK_SERVER_NAME, version: '1.0.0' });
+  const cloudId = z.string().describe('Atlassian cloud id of the site');
+
+  // ---------------------------------------------------------------------------
+  // Site and user
+  // ---------------------------------------------------------------------------
+
+  server.registerTool('getAccessibleAtlassianResources', {
+    description: 'List the Atlassian sites the user can access, with their cloudIds',
+    annotations: READ_ONLY
+  }, async () => respond(() => [dataset.site]));
+
+  server.registerTool('atlassianUserInfo', {
+    description: 'Get the signed-in Atlassian account',
+    annotations: READ_ONLY
+  }, async () => respond(() => toUserInfo(dataset.currentUser)));
+
+  server.registerTool('lookupJiraAccountId', {
+    description: 'Find Jira users by display name or email',
+    inputSchema: { cloudId, searchString: z.string() },
+    annotations: READ_ONLY
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const search = args.searchString.toLowerCase();
+    return dataset.users.filter(user =>
+      user.displayName.toLowerCase().includes(search) || user.emailAddress?.toLowerCase().includes(search)
+    );
+  }));
+
+  // ---------------------------------------------------------------------------
+  // Jira
+  // ---------------------------------------------------------------------------
+
+  server.registerTool('getVisibleJiraProjects', {
+    description: 'List the Jira projects the user can see',
+    inputSchema: {
+      cloudId,
+      searchString: z.string().optional(),
+      action: z.enum(['view', 'browse', 'edit', 'create']).optional(),
+      maxResults: z.number().int().positive().optional(),
+      expandIssueTypes: z.boolean().optional()
+    },
+    annotations: READ_ONLY
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const search = args.searchString?.toLowerCase() ?? '';
+    const values = dataset.projects
+      .filter(project => project.key.toLowerCase().includes(search) || project.name.toLowerCase().includes(search))
+      .slice(0, args.maxResults ?? 50)
+      .map(({ issueTypes, ...project }) => args.expandIssueTypes ? { ...project, issueTypes } : project);
+    return { values, total: values.length, isLast: true };
+  }));
+
+  server.registerTool('getJiraIssue', {
+    description: 'Get a Jira issue by id or key',
+    inputSchema: {
+      cloudId,
+      issueIdOrKey: z.string(),
+      fields: z.array(z.string()).optional(),
+      expand: z.string().optional()
+    },
+    annotations: READ_ONLY
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    return selectFields(findIssue(dataset, args.issueIdOrKey), args.fields);
+  }));
+
+  server.registerTool('searchJiraIssuesUsingJql', {
+    description: 'Search Jira issues with JQL (AND, OR, NOT, =, !=, ~, IN, IS EMPTY, date comparisons, ORDER BY)',
+    inputSchema: {
+      cloudId,
+      jql: z.string(),
+      fields: z.array(z.string()).optional(),
+      maxResults: z.number().int().positive().max(100).optional(),
+      startAt: z.number().int().nonnegative().optional(),
+      nextPageToken: z.string().optional()
+    },
+    annotations: READ_ONLY
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const matches = runQuery(dataset.issues, args.jql, jiraIssueFields, dataset.currentUser.accountId);
+    const startAt = args.nextPageToken ? Number(args.nextPageToken) : args.startAt ?? 0;
+    const maxResults = args.maxResults ?? 50;
+    const issues = matches.slice(startAt, startAt + maxResults).map(issue => selectFields(issue, args.fields));
+    const isLast = startAt + issues.length >= matches.length;
+
+    return {
+      issues,
+      startAt,
+      maxResults,
+      total: matches.length,
+      isLast,
+      ...(!isLast && { nextPageToken: String(startAt + issues.length) })
+    };
+  }));
+
+  server.registerTool('createJiraIssue', {
+    description: 'Create a Jira issue',
+    inputSchema: {
+      cloudId,
+      projectKey: z.string(),
+      issueTypeName: z.string(),
+      summary: z.string(),
+      description: z.string().optional(),
+      assignee_account_id: z.string().optional(),
+      parent: z.string().optional(),
+      additional_fields: z.record(z.unknown()).optional()
+    },
+    annotations: WRITE
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const project = dataset.projects.find(candidate => candidate.key.toLowerCase() === args.projectKey.toLowerCase());
+    if (!project) {
+      throw new MockToolError(`Project '${args.projectKey}' does not exist or you do not have permission to view it.`);
+    }
+    const issueType = MOCK_ISSUE_TYPES.find(type => type.name.toLowerCase() === args.issueTypeName.toLowerCase());
+    if (!issueType) {
+      throw new MockToolError(`Issue type '${args.issueTypeName}' is not valid for project ${project.key}.`);
+    }
+    const parent = args.parent ? findIssue(dataset, args.parent) : undefined;
+
+    const id = ++dataset.sequences.issue;
+    const number = dataset.issues.filter(issue => issue.fields.project?.key === project.key).length + 1;
+    const now = timestamp();
+    const issue: JiraIssue = {
+      id: String(id),
+      key: `${project.key}-${number}`,
+      self: `${MOCK_SITE_URL}/rest/api/3/issue/${id}`,
+      fields: {
+        ...args.additional_fields,
+        summary: args.summary,
+        description: args.description ?? null,
+        status: MOCK_STATUSES.todo,
+        priority: { id: '3', name: 'Medium' },
+        issuetype: issueType,
+        project,
+        assignee: args.assignee_account_id ? findUser(dataset, args.assignee_account_id) : null,
+        reporter: dataset.currentUser,
+        labels: [],
+        created: now,
+        updated: now,
+        duedate: null,
+        resolution: null,
+        comment: { comments: [], total: 0 },
+        ...(parent && { parent: { id: parent.id, key: parent.key, fields: { summary: parent.fields.summary } } })
+      }
+    };
+
+    dataset.issues.push(issue);
+    return { id: issue.id, key: issue.key, self: issue.self };
+  }));
+
+  server.registerTool('editJiraIssue', {
+    description: 'Update fields of a Jira issue',
+    inputSchema: { cloudId, issueIdOrKey: z.string(), fields: z.record(z.unknown()) },
+    annotations: { ...WRITE, idempotentHint: true }
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const issue = findIssue(dataset, args.issueIdOrKey);
+    applyFields(dataset, issue, args.fields);
+    return issue;
+  }));
+
+  server.registerTool('getTransitionsForJiraIssue', {
+    description: 'List the workflow transitions available for a Jira issue',
+    inputSchema: { cloudId, issueIdOrKey: z.string() },
+    annotations: READ_ONLY
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const issue = findIssue(dataset, args.issueIdOrKey);
+    return { transitions: MOCK_TRANSITIONS.filter(transition => transition.to?.id !== issue.fields.status?.id) };
+  }));
+
+  server.registerTool('transitionJiraIssue', {
+    description: 'Move a Jira issue through a workflow transition',
+    inputSchema: {
+      cloudId,
+      issueIdOrKey: z.string(),
+      transition: z.object({ id: z.string() }),
+      fields: z.record(z.unknown()).optional()
+    },
+    annotations: WRITE
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const issue = findIssue(dataset, args.issueIdOrKey);
+    const transition = MOCK_TRANSITIONS.find(candidate => candidate.id === args.transition.id);
+    if (!transition?.to) {
+      throw new MockToolError(`Transition id '${args.transition.id}' is not valid for this issue.`);
+    }
+
+    if (args.fields) {
+      applyFields(dataset, issue, args.fields);
+    }
+    issue.fields.status = transition.to;
+    issue.fields.resolution = transition.to === MOCK_STATUSES.done ? { id: '10000', name: 'Done' } : null;
+    issue.fields.updated = timestamp();
+    return { success: true };
+  }));
+
+  server.registerTool('addCommentToJiraIssue', {
+    description: 'Add a comment to a Jira issue',
+    inputSchema: { cloudId, issueIdOrKey: z.string(), commentBody: z.string() },
+    annotations: WRITE
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const issue = findIssue(dataset, args.issueIdOrKey);
+    const comment = {
+      id: String(++dataset.sequences.comment),
+      author: dataset.currentUser,
+      body: args.commentBody,
+      created: timestamp()
+    };
+
+    const thread = issue.fields.comment ?? { comments: [], total: 0 };
+    issue.fields.comment = { comments: [...thread.comments, comment], total: thread.total + 1 };
+    return comment;
+  }));
+
+  // ---------------------------------------------------------------------------
+  // Confluence
+  // ---------------------------------------------------------------------------
+
+  server.registerTool('getConfluenceSpaces', {
+    description: 'List Confluence spaces',
+    inputSchema: {
+      cloudId,
+      keys: z.array(z.string()).optional(),
+      type: z.enum(['global', 'personal']).optional(),
+      status: z.enum(['current', 'archived']).optional(),
+      limit: z.number().int().positive().optional(),
+      cursor: z.string().optional()
+    },
+    annotations: READ_ONLY
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const spaces = dataset.spaces.filter(space =>
+      (!args.keys || args.keys.includes(space.key)) &&
+      (!args.type || space.type === args.type) &&
+      (!args.status || space.status === args.status)
+    );
+    return { results: page(spaces, args.cursor, args.limit), _links: nextLink(spaces, args.cursor, args.limit) };
+  }));
+
+  server.registerTool('getConfluencePage', {
+    description: 'Get a Confluence page with its body',
+    inputSchema: {
+      cloudId,
+      pageId: z.string(),
+      contentFormat: z.enum(['storage', 'atlas_doc_format', 'markdown']).optional()
+    },
+    annotations: READ_ONLY
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const found = findPage(dataset, args.pageId);
+    if (args.contentFormat !== 'markdown') {
+      return found;
+    }
+    // The real server converts to markdown; stripping the tags is close enough here
+    const storage = typeof found.body === 'string' ? found.body : found.body?.storage?.value ?? '';
+    return { ...found, body: storage.replace(/<[^>]+>/g, '') };
+  }));
+
+  server.registerTool('getConfluencePageDescendants', {
+    description: 'List the pages below a Confluence page',
+    inputSchema: {
+      cloudId,
+      pageId: z.string(),
+      depth: z.number().int().positive().optional(),
+      limit: z.number().int().positive().optional(),
+      cursor: z.string().optional()
+    },
+    annotations: READ_ONLY
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    findPage(dataset, args.pageId);
+    const descendants = collectDescendants(dataset.pages, args.pageId, args.depth ?? Infinity);
+    return {
+      results: page(descendants, args.cursor, args.limit).map(({ body, ...rest }) => rest),
+      _links: nextLink(descendants, args.cursor, args.limit)
+    };
+  }));
+
+  server.registerTool('searchConfluenceUsingCql', {
+    description: 'Search Confluence pages with CQL (space, title, text, type, parent, created; AND, OR, NOT, ~, =)',
+    inputSchema: {
+      cloudId,
+      cql: z.string(),
+      limit: z.number().int().positive().optional(),
+      cursor: z.string().optional(),
+      start: z.number().int().nonnegative().optional()
+    },
+    annotations: READ_ONLY
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const matches = runQuery(dataset.pages, args.cql, confluencePageFields(dataset.spaces), dataset.currentUser.accountId);
+    const cursor = args.cursor ?? (args.start !== undefined ? String(args.start) : undefined);
+    const results = page(matches, cursor, args.limit).map(found => {
+      const space = dataset.spaces.find(candidate => candidate.id === found.spaceId);
+      return {
+        title: found.title,
+        excerpt: bodyText(found).slice(0, 120),
+        url: found._links?.webui,
+        lastModified: found.version?.createdAt ?? found.createdAt,
+        entityType: 'content',
+        content: {
+          id: found.id,
+          type: 'page',
+          title: found.title,
+          status: found.status,
+          ...(space && { space: { key: space.key, name: space.name } }),
+          ...(found._links && { _links: found._links })
+        }
+      };
+    });
+
+    return {
+      results,
+      start: Number(cursor ?? 0),
+      limit: args.limit ?? 25,
+      size: results.length,
+      totalSize: matches.length,
+      cqlQuery: args.cql,
+      _links: nextLink(matches, cursor, args.limit)
+    };
+  }));
+
+  server.registerTool('createConfluencePage', {
+    description: 'Create a Confluence page',
+    inputSchema: {
+      cloudId,
+      spaceId: z.string(),
+      title: z.string(),
+      body: z.string(),
+      parentId: z.string().optional(),
+      isPrivate: z.boolean().optional()
+    },
+    annotations: WRITE
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const space = dataset.spaces.find(candidate => candidate.id === args.spaceId || candidate.key === args.spaceId);
+    if (!space) {
+      throw new MockToolError(`Space '${args.spaceId}' was not found.`);
+    }
+    if (args.parentId) {
+      findPage(dataset, args.parentId);
+    }
+    if (dataset.pages.some(existing => existing.spaceId === space.id && existing.title === args.title)) {
+      throw new MockToolError(`A page with the title '${args.title}' already exists in space ${space.key}.`);
+    }
+
+    const id = String(++dataset.sequences.page);
+    const now = new Date().toISOString();
+    const created: ConfluencePage = {
+      id,
+      title: args.title,
+      status: 'current',
+      spaceId: space.id,
+      parentId: args.parentId ?? space.homepageId ?? null,
+      parentType: 'page',
+      authorId: dataset.currentUser.accountId,
+      createdAt: now,
+      version: { number: 1, createdAt: now, authorId: dataset.currentUser.accountId },
+      body: { storage: { value: args.body, representation: 'storage' } },
+      _links: { webui: `/spaces/${space.key}/pages/${id}` }
+    };
+
+    dataset.pages.push(created);
+    return created;
+  }));
+
+  server.registerTool('updateConfluencePage', {
+    description: 'Update the title and/or body of a Confluence page',
+    inputSchema: {
+      cloudId,
+      pageId: z.string(),
+      body: z.string(),
+      title: z.string().optional(),
+      versionMessage: z.string().optional(),
+      status: z.enum(['current', 'draft']).optional()
+    },
+    annotations: { ...WRITE, idempotentHint: true }
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const found = findPage(dataset, args.pageId);
+    const now = new Date().toISOString();
+
+    found.body = { storage: { value: args.body, representation: 'storage' } };
+    found.title = args.title ?? found.title;
+    found.status = args.status ?? found.status ?? 'current';
+    found.version = {
+      number: (found.version?.number ?? 1) + 1,
+      createdAt: now,
+      authorId: dataset.currentUser.accountId,
+      ...(args.versionMessage && { message: args.versionMessage })
+    };
+    return found;
+  }));
+
+  server.registerTool('createConfluenceFooterComment', {
+    description: 'Add a footer comment to a Confluence page',
+    inputSchema: { cloudId, pageId: z.string(), body: z.string() },
+    annotations: WRITE
+  }, async args => respond(() => {
+    checkSite(dataset, args.cloudId);
+    const found = findPage(dataset, args.pageId);
+    const comment = {
+      id: String(++dataset.sequences.comment),
+      status: 'current',
+      title: `Re: ${found.title}`,
+      pageId: found.id,
+      version: { number: 1, createdAt: new Date().toISOString(), authorId: dataset.currentUser.accountId },
+      body: { storage: { value: args.body, representation: 'storage' as const } }
+    };
+
+    dataset.pageComments.push(comment);
+    return comment;
+  }));
+
+  return server;
+}
+
+/**
+ * Serve the mock over Streamable HTTP in stateless mode: every POST gets its
+ * own server instance, all of them sharing one dataset
+ */
+export async function startMockHttpServer(options: MockHttpServerOptions = {}): Promise<MockHttpServer> {
+  const dataset = options.dataset ?? createSeedData();
+
+  const httpServer = http.createServer(async (req, res) => {
+    if (req.method !== 'POST') {
+      // Stateless servers have no standalone SSE stream or session to delete
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+      return;
+    }
+
+    const server = createMockAtlassianServer(dataset);
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on('close', () => {
+      void transport.close();
+      void server.close();
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  });
+
+  await new Promise<void>(resolve => httpServer.listen(options.port ?? 0, options.host ?? '127.0.0.1', resolve));
+  const { address, port } = httpServer.address() as AddressInfo;
+  const host = address.includes(':') ? `[${address}]` : address;
+
+  return {
+    url: `http://${host}:${port}/mcp`,
+    dataset,
+    close: async () => {
+      httpServer.closeAllConnections();
+      await new Promise(resolve => httpServer.close(resolve));
+    }
+  };
+}
+
+/**
+ * Run a tool body and wrap its result as JSON text; mock and query errors become isError results
+ */
+function respond(body: () => unknown): CallToolResult {
+  try {
+    return { content: [{ type: 'text', text: JSON.stringify(body(), null, 2) }] };
+  } catch (error) {
+    if (error instanceof MockToolError || error instanceof QueryError) {
+      return { content: [{ type: 'text', text: error.message }], isError: true };
+    }
+    throw error;
+  }
+}
+
+function checkSite(dataset: MockDataset, cloudId: string): void {
+  if (cloudId !== dataset.site.id && cloudId !== dataset.site.url) {
+    throw new MockToolError(`Cloud id '${cloudId}' is not an accessible site. Use ${dataset.site.id}.`);
+  }
+}
+
+function findIssue(dataset: MockDataset, issueIdOrKey: string): JiraIssue {
+  const issue = dataset.issues.find(candidate =>
+    candidate.id === issueIdOrKey || candidate.key.toLowerCase() === issueIdOrKey.toLowerCase()
+  );
+  if (!issue) {
+    throw new MockToolError(`Issue does not exist or you do not have permission to see it: ${issueIdOrKey}`);
+  }
+  return issue;
+}
+
+function findUser(dataset: MockDataset, accountId: string) {
+  const user = dataset.users.find(candidate => candidate.accountId === accountId);
+  if (!user) {
+    throw new MockToolError(`User with accountId '${accountId}' does not exist.`);
+  }
+  return user;
+}
+
+function findPage(dataset: MockDataset, pageId: string): ConfluencePage {
+  const found = dataset.pages.find(candidate => candidate.id === pageId);
+  if (!found) {
+    throw new MockToolError(`Page ${pageId} was not found.`);
+  }
+  return found;
+}
+
+/**
+ * Apply an edit; assignee and priority accept the shapes Jira's REST API takes
+ */
+function applyFields(dataset: MockDataset, issue: JiraIssue, fields: Record<string, unknown>): void {
+  const changes: Partial<JiraIssueFields> = { ...fields } as Partial<JiraIssueFields>;
+
+  if ('status' in fields) {
+    throw new MockToolError('Field \'status\' cannot be set. Use transitionJiraIssue instead.');
+  }
+  if ('assignee' in fields) {
+    const assignee = fields['assignee'] as { accountId?: string } | null;
+    changes.assignee = assignee?.accountId ? findUser(dataset, assignee.accountId) : null;
+  }
+  if ('priority' in fields) {
+    const priority = fields['priority'] as { name?: string; id?: string } | null;
+    changes.priority = priority ? { id: priority.id ?? '3', name: priority.name ?? 'Medium' } : null;
+  }
+
+  Object.assign(issue.fields, changes, { updated: timestamp() });
+}
+
+/**
+ * The issue with only the requested fields, as Jira returns it
+ */
+function selectFields(issue: JiraIssue, fields: string[] | undefined): JiraIssue {
+  if (!fields || fields.length === 0 || fields.includes('*all')) {
+    return issue;
+  }
+  const selected = Object.fromEntries(
+    Object.entries(issue.fields).filter(([name]) => fields.includes(name))
+  ) as JiraIssueFields;
+  return { ...issue, fields: selected };
+}
+
+function collectDescendants(pages: ConfluencePage[], parentId: string, depth: number): ConfluencePage[] {
+  if (depth <= 0) {
+    return [];
+  }
+  return pages
+    .filter(candidate => candidate.parentId === parentId)
+    .flatMap(child => [child, ...collectDescendants(pages, child.id, depth - 1)]);
+}
+
+/** Cursors are plain offsets; the real server's are opaque, which clients must not rely on anyway */
+function page<T>(items: T[], cursor: string | undefined, limit: number | undefined): T[] {
+  const start = Number(cursor ?? 0);
+  return items.slice(start, start + (limit ?? 25));
+}
+
+function nextLink(items: unknown[], cursor: string | undefined, limit: number | undefined): { next?: string } {
+  const next = Number(cursor ?? 0) + (limit ?? 25);
+  return next < items.length ? { next: `/wiki/api/v2/pages?cursor=${next}` } : {};
+}
+
+function bodyText(found: ConfluencePage): string {
+  const storage = typeof found.body === 'string' ? found.body : found.body?.storage?.value ?? '';
+  return storage.replace(/<[^>]+>/g, '');
+}
+
+/** Jira-style timestamp, e.g. 2025-01-08T10:30:00.000+0000 */
+function timestamp(): string {
+  return new Date().toISOString().replace('Z', '+0000');
+}
@@ -0,0 +1,399 @@
+/**
+ * A small JQL/CQL evaluator for the mock server
+ *
+ * Supports clauses joined with AND, OR, NOT and parentheses; the operators
+ * =, !=, ~, !~, >, >=, <, <=, IN, NOT IN, IS [NOT] EMPTY; currentUser(),
+ * relative dates like -7d; and ORDER BY. That covers what the CLIs and the
+ * AI layers generate, not the whole language.
+ */
+
+import type { JiraIssue, JiraUser } from '../client/types/jira.js';
+import type { ConfluencePage, ConfluenceSpace } from '../client/types/confluence.js';
+
+/** A clause the mock cannot evaluate; the message matches Jira's where possible */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+/**
+ * Values a field has on an item, or undefined when the field does not exist.
+ * An empty array means the field exists but is empty.
+ */
+export type FieldResolver<T> = (item: T, field: string) => string[] | undefined;
+
+type Operator = '=' | '!=' | '~' | '!~' | '>' | '>=' | '<' | '<=' | 'in' | 'not in' | 'is' | 'is not';
+
+type Expression =
+  | { kind: 'and' | 'or'; left: Expression; right: Expression }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'clause'; field: string; operator: Operator; values: string[] };
+
+interface OrderBy {
+  field: string;
+  descending: boolean;
+}
+
+const EMPTY = '\u0000empty';
+
+/**
+ * Filter and sort items with a JQL or CQL query
+ */
+export function runQuery<T>(items: T[], query: string, resolve: FieldResolver<T>, currentUser: string): T[] {
+  const parser = new Parser(tokenize(query), currentUser);
+  const { where, orderBy } = parser.parseQuery();
+
+  const matches = where ? items.filter(item => evaluate(where, item, resolve)) : [...items];
+
+  return orderBy.length === 0 ? matches : matches.sort((a, b) => {
+    for (const { field, descending } of orderBy) {
+      const left = resolveOrThrow(resolve, a, field)[0] ?? '';
+      const right = resolveOrThrow(resolve, b, field)[0] ?? '';
+      const order = left.localeCompare(right, undefined, { numeric: true, sensitivity: 'base' });
+      if (order !== 0) {
+        return descending ? -order : order;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Field values of a Jira issue for JQL
+ */
+export const jiraIssueFields: FieldResolver<JiraIssue> = (issue, field) => {
+  const fields = issue.fields;
+  const user = (value: JiraUser | null | undefined) =>
+    value ? [value.accountId, value.displayName, value.emailAddress ?? ''].filter(Boolean) : [];
+
+  switch (field) {
+    case 'project':
+      return fields.project ? [fields.project.key, fields.project.name, fields.project.id] : [];
+    case 'key':
+    case 'issuekey':
+    case 'id':
+      return [issue.key, issue.id];
+    case 'status':
+      return fields.status ? [fields.status.name, fields.status.id] : [];
+    case 'statuscategory':
+      return fields.status?.statusCategory ? [fields.status.statusCategory.name, fields.status.statusCategory.key] : [];
+    case 'assignee':
+      return user(fields.assignee);
+    case 'reporter':
+      return user(fields.reporter);
+    case 'type':
+    case 'issuetype':
+      return fields.issuetype ? [fields.issuetype.name, fields.issuetype.id] : [];
+    case 'priority':
+      return fields.priority ? [fields.priority.name, fields.priority.id] : [];
+    case 'labels':
+      return fields.labels ?? [];
+    case 'parent':
+      return fields.parent ? [fields.parent.key, fields.parent.id] : [];
+    case 'summary':
+      return [fields.summary];
+    case 'description':
+      return fields.description ? [fields.description] : [];
+    case 'text':
+      return [fields.summary, fields.description ?? ''];
+    case 'created':
+    case 'createddate':
+      return fields.created ? [fields.created] : [];
+    case 'updated':
+    case 'updateddate':
+      return fields.updated ? [fields.updated] : [];
+    case 'resolution':
+      return fields.resolution ? [fields.resolution.name] : [];
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Field values of a Confluence page for CQL; pages need their space to resolve "space"
+ */
+export function confluencePageFields(spaces: ConfluenceSpace[]): FieldResolver<ConfluencePage> {
+  return (page, field) => {
+    const space = spaces.find(candidate => candidate.id === page.spaceId);
+    const body = typeof page.body === 'string' ? page.body : page.body?.storage?.value ?? '';
+
+    switch (field) {
+      case 'type':
+        return ['page'];
+      case 'id':
+        return [page.id];
+      case 'space':
+      case 'space.key':
+        return space ? [space.key, space.id] : [];
+      case 'title':
+        return [page.title];
+      case 'text':
+        return [page.title, body];
+      case 'parent':
+      case 'ancestor':
+        return page.parentId ? [page.parentId] : [];
+      case 'creator':
+        return page.authorId ? [page.authorId] : [];
+      case 'created':
+        return page.createdAt ? [page.createdAt] : [];
+      case 'lastmodified':
+        return [page.version?.createdAt ?? page.createdAt ?? ''];
+      default:
+        return undefined;
+    }
+  };
+}
+
+function evaluate<T>(expression: Expression, item: T, resolve: FieldResolver<T>): boolean {
+  switch (expression.kind) {
+    case 'and':
+      return evaluate(expression.left, item, resolve) && evaluate(expression.right, item, resolve);
+    case 'or':
+      return evaluate(expression.left, item, resolve) || evaluate(expression.right, item, resolve);
+    case 'not':
+      return !evaluate(expression.operand, item, resolve);
+    case 'clause':
+      return matchesClause(resolveOrThrow(resolve, item, expression.field), expression.operator, expression.values);
+  }
+}
+
+function resolveOrThrow<T>(resolve: FieldResolver<T>, item: T, field: string): string[] {
+  const values = resolve(item, field);
+  if (values === undefined) {
+    throw new QueryError(`Field '${field}' does not exist or you do not have permission to view it.`);
+  }
+  return values;
+}
+
+function matchesClause(actual: string[], operator: Operator, expected: string[]): boolean {
+  const lower = actual.map(value => value.toLowerCase());
+  const equals = (value: string) => value === EMPTY ? actual.length === 0 : lower.includes(value.toLowerCase());
+
+  switch (operator) {
+    case '=':
+    case 'is':
+    case 'in':
+      return expected.some(equals);
+    case '!=':
+    case 'is not':
+    case 'not in':
+      return !expected.some(equals);
+    case '~':
+      return lower.some(value => value.includes(expected[0]!.toLowerCase()));
+    case '!~':
+      return !lower.some(value => value.includes(expected[0]!.toLowerCase()));
+    default: {
+      const bound = toDate(expected[0]!);
+      return actual.some(value => {
+        const compared = Date.parse(value) - bound;
+        return operator === '>' ? compared > 0 : operator === '>=' ? compared >= 0 : operator === '<' ? compared < 0 : compared <= 0;
+      });
+    }
+  }
+}
+
+/**
+ * Absolute dates, or offsets from now such as -7d, -2w or -4h
+ */
+function toDate(value: string): number {
+  const relative = /^([+-]?\d+)([mhdw])$/.exec(value);
+  if (relative) {
+    const unit = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 }[relative[2] as 'm' | 'h' | 'd' | 'w'];
+    return Date.now() + Number(relative[1]) * unit;
+  }
+
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new QueryError(`Date value '${value}' is invalid.`);
+  }
+  return parsed;
+}
+
+type Token = { type: 'word' | 'string' | 'symbol'; value: string };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(!=|!~|>=|<=|[=~<>(),])|([^\s=!~<>(),"']+)/y;
+
+  let position = 0;
+  while (position < query.length) {
+    if (/\s/.test(query[position]!)) {
+      position++;
+      continue;
+    }
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(query);
+    if (!match) {
+      throw new QueryError(`Error in the query: unexpected text at position ${position}.`);
+    }
+
+    if (match[1] !== undefined || match[2] !== undefined) {
+      tokens.push({ type: 'string', value: (match[1] ?? match[2]!).replace(/\\(.)/g, '$1') });
+    } else if (match[3] !== undefined) {
+      tokens.push({ type: 'symbol', value: match[3] });
+    } else {
+      tokens.push({ type: 'word', value: match[4]! });
+    }
+    position = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private currentUser: string) {}
+
+  parseQuery(): { where: Expression | null; orderBy: OrderBy[] } {
+    const where = this.atKeyword('order') ? null : this.tokens.length === 0 ? null : this.parseOr();
+    const orderBy: OrderBy[] = [];
+
+    if (this.acceptKeyword('order')) {
+      this.expectKeyword('by');
+      do {
+        const field = this.next('field name').value.toLowerCase();
+        const descending = this.acceptKeyword('desc');
+        if (!descending) {
+          this.acceptKeyword('asc');
+        }
+        orderBy.push({ field, descending });
+      } while (this.acceptSymbol(','));
+    }
+
+    if (this.position < this.tokens.length) {
+      throw new QueryError(`Error in the query: unexpected '${this.tokens[this.position]!.value}'.`);
+    }
+    return { where, orderBy };
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('or')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseUnary();
+    while (this.acceptKeyword('and')) {
+      left = { kind: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.acceptKeyword('not')) {
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    if (this.acceptSymbol('(')) {
+      const inner = this.parseOr();
+      this.expectSymbol(')');
+      return inner;
+    }
+    return this.parseClause();
+  }
+
+  private parseClause(): Expression {
+    const field = this.next('field name').value.toLowerCase();
+    const operator = this.parseOperator();
+
+    if (operator === 'in' || operator === 'not in') {
+      this.expectSymbol('(');
+      const values = [this.parseValue()];
+      while (this.acceptSymbol(',')) {
+        values.push(this.parseValue());
+      }
+      this.expectSymbol(')');
+      return { kind: 'clause', field, operator, values };
+    }
+
+    return { kind: 'clause', field, operator, values: [this.parseValue()] };
+  }
+
+  private parseOperator(): Operator {
+    const token = this.next('operator');
+    if (token.type === 'symbol' && ['=', '!=', '~', '!~', '>', '>=', '<', '<='].includes(token.value)) {
+      return token.value as Operator;
+    }
+
+    const keyword = token.value.toLowerCase();
+    if (token.type === 'word' && keyword === 'in') {
+      return 'in';
+    }
+    if (token.type === 'word' && keyword === 'is') {
+      return this.acceptKeyword('not') ? 'is not' : 'is';
+    }
+    if (token.type === 'word' && keyword === 'not' && this.acceptKeyword('in')) {
+      return 'not in';
+    }
+    throw new QueryError(`Error in the query: '${token.value}' is not a supported operator.`);
+  }
+
+  private parseValue(): string {
+    const token = this.next('value');
+    if (token.type === 'string') {
+      return token.value;
+    }
+
+    const keyword = token.value.toLowerCase();
+    if (keyword === 'empty' || keyword === 'null') {
+      return EMPTY;
+    }
+    if (keyword === 'currentuser' && this.acceptSymbol('(')) {
+      this.expectSymbol(')');
+      return this.currentUser;
+    }
+    if (keyword === 'now' && this.acceptSymbol('(')) {
+      this.expectSymbol(')');
+      return new Date().toISOString();
+    }
+    return token.value;
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new QueryError(`Error in the query: expected a ${expected} but the query ended.`);
+    }
+    return token;
+  }
+
+  private atKeyword(keyword: string): boolean {
+    const token = this.tokens[this.position];
+    return token?.type === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.atKeyword(keyword)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw new QueryError(`Error in the query: expected '${keyword.toUpperCase()}'.`);
+    }
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.tokens[this.position];
+    if (token?.type === 'symbol' && token.value === symbol) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      throw new QueryError(`Error in the query: expected '${symbol}'.`);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+/**
+ * Start the mock Atlassian MCP server
+ *
+ *   tsx src/mock-server/run.ts               # stdio, for MCP hosts that spawn servers
+ *   tsx src/mock-server/run.ts --http 3999   # Streamable HTTP at http://127.0.0.1:3999/mcp
+ *
+ * Point the client at the HTTP server with ATLASSIAN_MCP_TRANSPORT=endpoint
+ * and ATLASSIAN_MCP_SERVER_URL=http://127.0.0.1:3999/mcp.
+ */
+
+import { Command } from 'commander';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createMockAtlassianServer, startMockHttpServer } from './mock-atlassian-server.js';
+
+const program = new Command();
+
+program
+  .name('mock-atlassian-server')
+  .description('Serve the Atlassian MCP tools over seeded in-memory data')
+  .option('--http [port]', 'Serve Streamable HTTP instead of stdio (default port: 3999)')
+  .option('--host <host>', 'Interface to listen on in HTTP mode', '127.0.0.1')
+  .action(async (options: { http?: string | boolean; host: string }) => {
+    if (options.http === undefined) {
+      // stdout carries the protocol, so nothing else may be written to it
+      await createMockAtlassianServer().connect(new StdioServerTransport());
+      console.error('Mock Atlassian MCP server running on stdio');
+      return;
+    }
+
+    const port = options.http === true ? 3999 : Number(options.http);
+    const server = await startMockHttpServer({ port, host: options.host });
+    console.log(`Mock Atlassian MCP server listening on ${server.url}`);
+
+    process.on('SIGINT', () => {
+      void server.close().then(() => process.exit(0));
+    });
+  });
+
+program.parseAsync().catch(error => {
+  console.error('Mock server failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,163 @@
+/**
+ * In-memory dataset served by the mock Atlassian MCP server
+ *
+ * Shapes follow the types in src/client/types, which mirror what the real
+ * server returns. createSeedData() returns a fresh copy, so every server (or
+ * test) can change its own data freely.
+ */
+
+import type { AtlassianSite, AtlassianUserInfo } from '../client/types/site.js';
+import type { JiraComment, JiraIssue, JiraIssueType, JiraProject, JiraStatus, JiraTransition, JiraUser } from '../client/types/jira.js';
+import type { ConfluenceComment, ConfluencePage, ConfluenceSpace } from '../client/types/confluence.js';
+
+export const MOCK_CLOUD_ID = 'mock-cloud-id';
+export const MOCK_SITE_URL = 'https://mock.atlassian.net';
+
+export interface MockDataset {
+  site: AtlassianSite;
+  /** The account the mock server acts as */
+  currentUser: JiraUser;
+  users: JiraUser[];
+  projects: JiraProject[];
+  issues: JiraIssue[];
+  spaces: ConfluenceSpace[];
+  pages: ConfluencePage[];
+  pageComments: ConfluenceComment[];
+  /** Last id handed out per kind of created entity */
+  sequences: { issue: number; comment: number; page: number };
+}
+
+export const MOCK_STATUSES: Record<'todo' | 'inProgress' | 'done', JiraStatus> = {
+  todo: { id: '10000', name: 'To Do', statusCategory: { id: 2, key: 'new', name: 'To Do', colorName: 'blue-gray' } },
+  inProgress: { id: '10001', name: 'In Progress', statusCategory: { id: 4, key: 'indeterminate', name: 'In Progress', colorName: 'yellow' } },
+  done: { id: '10002', name: 'Done', statusCategory: { id: 3, key: 'done', name: 'Done', colorName: 'green' } }
+};
+
+/** Every issue can move to every status, as in a simplified Jira workflow */
+export const MOCK_TRANSITIONS: JiraTransition[] = [
+  { id: '11', name: 'To Do', to: MOCK_STATUSES.todo, hasScreen: false, isAvailable: true },
+  { id: '21', name: 'In Progress', to: MOCK_STATUSES.inProgress, hasScreen: false, isAvailable: true },
+  { id: '31', name: 'Done', to: MOCK_STATUSES.done, hasScreen: false, isAvailable: true }
+];
+
+export const MOCK_ISSUE_TYPES: JiraIssueType[] = [
+  { id: '10001', name: 'Task', subtask: false, hierarchyLevel: 0 },
+  { id: '10002', name: 'Bug', subtask: false, hierarchyLevel: 0 },
+  { id: '10003', name: 'Story', subtask: false, hierarchyLevel: 0 },
+  { id: '10004', name: 'Epic', subtask: false, hierarchyLevel: 1 }
+];
+
+const PRIORITIES = {
+  high: { id: '2', name: 'High' },
+  medium: { id: '3', name: 'Medium' },
+  low: { id: '4', name: 'Low' }
+};
+
+/**
+ * The account atlassianUserInfo reports for the mock's current user
+ */
+export function toUserInfo(user: JiraUser): AtlassianUserInfo {
+  return {
+    account_id: user.accountId,
+    name: user.displayName,
+    ...(user.emailAddress && { email: user.emailAddress })
+  };
+}
+
+export function createSeedData(): MockDataset {
+  const alice: JiraUser = { accountId: 'mock-user-alice', displayName: 'Alice Example', emailAddress: 'alice@example.com', active: true, accountType: 'atlassian' };
+  const bob: JiraUser = { accountId: 'mock-user-bob', displayName: 'Bob Example', emailAddress: 'bob@example.com', active: true, accountType: 'atlassian' };
+
+  const projects: JiraProject[] = [
+    { id: '10000', key: 'PROJ', name: 'Mock Project', projectTypeKey: 'software', simplified: true, style: 'next-gen', lead: alice, issueTypes: MOCK_ISSUE_TYPES },
+    { id: '10001', key: 'OPS', name: 'Operations', projectTypeKey: 'service_desk', simplified: false, style: 'classic', lead: bob, issueTypes: MOCK_ISSUE_TYPES }
+  ];
+
+  const issue = (
+    id: number,
+    key: string,
+    summary: string,
+    fields: {
+      type: string;
+      status: JiraStatus;
+      priority: keyof typeof PRIORITIES;
+      assignee: JiraUser | null;
+      labels?: string[];
+      created: string;
+      description?: string;
+      comments?: JiraComment[];
+    }
+  ): JiraIssue => ({
+    id: String(id),
+    key,
+    self: `${MOCK_SITE_URL}/rest/api/3/issue/${id}`,
+    fields: {
+      summary,
+      description: fields.description ?? null,
+      status: fields.status,
+      priority: PRIORITIES[fields.priority],
+      issuetype: MOCK_ISSUE_TYPES.find(type => type.name === fields.type)!,
+      project: projects.find(project => key.startsWith(`${project.key}-`))!,
+      assignee: fields.assignee,
+      reporter: alice,
+      labels: fields.labels ?? [],
+      created: fields.created,
+      updated: fields.created,
+      duedate: null,
+      resolution: fields.status === MOCK_STATUSES.done ? { id: '10000', name: 'Done' } : null,
+      comment: { comments: fields.comments ?? [], total: fields.comments?.length ?? 0 }
+    }
+  });
+
+  const issues: JiraIssue[] = [
+    issue(10001, 'PROJ-1', 'Set up the project repository', { type: 'Task', status: MOCK_STATUSES.done, priority: 'medium', assignee: alice, labels: ['setup'], created: '2025-01-06T09:00:00.000+0000' }),
+    issue(10002, 'PROJ-2', 'Login page rejects valid passwords', {
+      type: 'Bug', status: MOCK_STATUSES.inProgress, priority: 'high', assignee: bob, labels: ['auth', 'frontend'], created: '2025-01-08T10:30:00.000+0000',
+      description: 'Users with special characters in their password cannot sign in.',
+      comments: [{ id: '10100', author: alice, body: 'Reproduced with a password containing "&".', created: '2025-01-08T11:00:00.000+0000' }]
+    }),
+    issue(10003, 'PROJ-3', 'Add dark mode to the dashboard', { type: 'Story', status: MOCK_STATUSES.todo, priority: 'low', assignee: null, labels: ['frontend'], created: '2025-01-10T14:00:00.000+0000' }),
+    issue(10004, 'PROJ-4', 'Export reports as CSV', { type: 'Story', status: MOCK_STATUSES.todo, priority: 'medium', assignee: alice, created: '2025-01-13T08:15:00.000+0000', description: 'Finance needs the monthly report as CSV.' }),
+    issue(10005, 'OPS-1', 'Rotate the database credentials', { type: 'Task', status: MOCK_STATUSES.todo, priority: 'high', assignee: bob, labels: ['security'], created: '2025-01-09T16:45:00.000+0000' }),
+    issue(10006, 'OPS-2', 'Nightly backup failed on 2025-01-11', { type: 'Bug', status: MOCK_STATUSES.done, priority: 'high', assignee: bob, labels: ['backup'], created: '2025-01-11T06:05:00.000+0000' })
+  ];
+
+  const spaces: ConfluenceSpace[] = [
+    { id: '98301', key: 'ENG', name: 'Engineering', type: 'global', status: 'current', homepageId: '20001', createdAt: '2024-11-01T09:00:00.000Z', _links: { webui: '/spaces/ENG' } },
+    { id: '98302', key: 'HR', name: 'People Team', type: 'global', status: 'current', homepageId: '20004', createdAt: '2024-11-02T09:00:00.000Z', _links: { webui: '/spaces/HR' } }
+  ];
+
+  const page = (id: string, spaceId: string, title: string, body: string, parentId: string | null, createdAt: string): ConfluencePage => ({
+    id,
+    title,
+    status: 'current',
+    spaceId,
+    parentId,
+    parentType: parentId ? 'page' : null,
+    authorId: alice.accountId,
+    createdAt,
+    version: { number: 1, createdAt, authorId: alice.accountId },
+    body: { storage: { value: body, representation: 'storage' } },
+    _links: { webui: `/spaces/${spaces.find(space => space.id === spaceId)!.key}/pages/${id}` }
+  });
+
+  const pages: ConfluencePage[] = [
+    page('20001', '98301', 'Engineering Home', '<p>Welcome to the engineering space.</p>', null, '2024-11-01T09:00:00.000Z'),
+    page('20002', '98301', 'Onboarding Guide', '<p>Clone the repository, run npm install and ask Alice for access.</p>', '20001', '2024-11-05T10:00:00.000Z'),
+    page('20003', '98301', 'Incident Runbook', '<p>Page the on-call engineer, then open an OPS ticket.</p>', '20001', '2024-12-02T15:30:00.000Z'),
+    page('20004', '98302', 'People Team Home', '<p>Policies and benefits.</p>', null, '2024-11-02T09:00:00.000Z'),
+    page('20005', '98302', 'Holiday Policy', '<p>Everyone gets 25 days of paid holiday.</p>', '20004', '2024-11-20T12:00:00.000Z')
+  ];
+
+  return {
+    site: { id: MOCK_CLOUD_ID, name: 'mock', url: MOCK_SITE_URL, scopes: ['read:jira-work', 'write:jira-work', 'read:confluence-content.all', 'write:confluence-content'] },
+    currentUser: alice,
+    users: [alice, bob],
+    projects,
+    issues,
+    spaces,
+    pages,
+    pageComments: [],
+    sequences: { issue: 10006, comment: 10100, page: 20005 }
+  };
+}
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Runs the client against the mock Atlassian MCP server: over Streamable HTTP
+ * through AtlassianMCPClient, and over stdio with a plain MCP client.
+ */
+
+import chalk from 'chalk';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
+import { ToolExecutionError } from '../utils/error-handler.js';
+import { createConsoleLogger } from '../utils/console-logger.js';
+import { startMockHttpServer } from '../mock-server/mock-atlassian-server.js';
+import { MOCK_CLOUD_ID } from '../mock-server/seed-data.js';
+
+async function testMockServer() {
+  console.log(chalk.blue.bold('🧪 Testing against the mock Atlassian MCP server'));
+  console.log(chalk.gray('================================================'));
+
+  const mock = await startMockHttpServer();
+  const client = new AtlassianMCPClient({
+    connection: { type: 'endpoint', url: mock.url },
+    logger: createConsoleLogger('warn'),
+    toolCatalogCache: false,
+    responseCache: false,
+    auditLog: false
+  });
+  let failed = false;
+
+  const check = (label: string, ok: boolean, detail = '') => {
+    console.log(ok ? chalk.green(`✅ ${label}`) : chalk.red(`❌ ${label}`), chalk.gray(detail));
+    failed ||= !ok;
+  };
+
+  try {
+    console.log(chalk.yellow('\n1. Connecting over Streamable HTTP...'));
+    await client.connect();
+    check('Site resolved', client.getCloudId() === MOCK_CLOUD_ID);
+    check('Every operation mapped to a tool', client.getCapabilities()?.missing.length === 0);
+
+    console.log(chalk.yellow('\n2. Jira...'));
+    const open = await client.searchIssues('project = PROJ AND status != Done ORDER BY created DESC');
+    check('JQL filters and sorts', open.issues.map(issue => issue.key).join(',') === 'PROJ-4,PROJ-3,PROJ-2',
+      open.issues.map(issue => issue.key).join(','));
+
+    const mine = await client.searchIssues('assignee = currentUser() AND labels IN (setup, frontend)');
+    check('currentUser() and IN', mine.issues.length === 1 && mine.issues[0]?.key === 'PROJ-1');
+
+    const created = await client.createIssue({ projectKey: 'PROJ', issueTypeName: 'Bug', summary: 'Mock server bug' });
+    check('Issue created', created.key === 'PROJ-5', created.key);
+
+    await client.transitionIssue(created.key, '31');
+    const done = await client.getIssue(created.key);
+    check('Issue transitioned', done.fields.status?.name === 'Done');
+
+    try {
+      await client.searchIssues('sprint = 1');
+      check('Unknown JQL field rejected', false);
+    } catch (error) {
+      check('Unknown JQL field rejected', error instanceof ToolExecutionError, error instanceof Error ? error.message : '');
+    }
+
+    console.log(chalk.yellow('\n3. Confluence...'));
+    const spaces = await client.listSpaces();
+    check('Spaces listed', spaces.length === 2);
+
+    const hits = await client.searchWithCql('space = ENG AND text ~ "on-call"');
+    check('CQL search', hits.results[0]?.title === 'Incident Runbook', hits.results.map(hit => hit.title).join(','));
+
+    const page = await client.createPage({ spaceId: '98301', title: 'Mock page', body: '<p>v1</p>' });
+    const updated = await client.updatePage(page.id, { body: '<p>v2</p>' });
+    check('Page created and updated', updated.version?.number === 2);
+
+    console.log(chalk.yellow('\n4. Serving over stdio...'));
+    const stdio = new Client({ name: 'mock-stdio-check', version: '1.0.0' });
+    await stdio.connect(new StdioClientTransport({ command: 'npx', args: ['tsx', 'src/mock-server/run.ts'] }));
+    const { tools } = await stdio.listTools();
+    check('Tools listed over stdio', tools.some(tool => tool.name === 'searchJiraIssuesUsingJql'), `${tools.length} tools`);
+    await stdio.close();
+  } catch (error) {
+    check('Unexpected error', false, error instanceof Error ? error.message : String(error));
+  } finally {
+    await client.disconnect();
+    await mock.close();
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+  console.log(chalk.green.bold('\n🎉 The client works against the mock server'));
+}
+
+testMockServer().catch(error => {
+  console.error(chalk.red('❌ Test failed:'), error);
+  process.exit(1);
+});
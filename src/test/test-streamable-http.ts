@@ -0,0 +1,206 @@
+#!/usr/bin/env node
+
+/**
+ * Exercises the Streamable HTTP transport against a local stand-in server:
+ * bearer headers, session ids and resuming a dropped response stream.
+ */
+
+import chalk from 'chalk';
+import { randomUUID } from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  StreamableHTTPServerTransport,
+  type EventStore
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { AtlassianMCPClient } from '../client/atlassian-mcp-client.js';
+import { createConsoleLogger } from '../utils/console-logger.js';
+
+const TOKEN = 'stand-in-token';
+
+/**
+ * Keeps every SSE event so dropped streams can be replayed after Last-Event-ID
+ */
+class MemoryEventStore implements EventStore {
+  private events: Array<{ eventId: string; streamId: string; message: JSONRPCMessage }> = [];
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = `${streamId}_${this.events.length}`;
+    this.events.push({ eventId, streamId, message });
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const index = this.events.findIndex(event => event.eventId === lastEventId);
+    const streamId = this.events[index]?.streamId ?? '';
+
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+    return streamId;
+  }
+}
+
+function createStandInServer(): McpServer {
+  const server = new McpServer(
+    { name: 'atlassian-stand-in', version: '0.0.1' },
+    { capabilities: { logging: {} } }
+  );
+
+  server.tool('getAccessibleAtlassianResources', async () => ({
+    content: [{
+      type: 'text',
+      text: JSON.stringify([{ id: 'stand-in-cloud', name: 'stand-in', url: 'https://stand-in.atlassian.net', scopes: [] }])
+    }]
+  }));
+
+  server.tool('slowEcho', { text: z.string() }, async ({ text }, extra) => {
+    await extra.sendNotification({ method: 'notifications/message', params: { level: 'info', data: 'working' } });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return { content: [{ type: 'text', text }] };
+  });
+
+  return server;
+}
+
+interface StandIn {
+  url: string;
+  close: () => Promise<void>;
+  /** Cut the standalone GET notification stream */
+  dropNotificationStream: () => void;
+  stats: { dropped: number; resumed: number };
+}
+
+/**
+ * Start the stand-in; the first slowEcho response stream is cut after its first event
+ */
+async function startStandIn(): Promise<StandIn> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  const eventStore = new MemoryEventStore();
+  const stats = { dropped: 0, resumed: 0 };
+  let notificationStream: http.ServerResponse | null = null;
+
+  const httpServer = http.createServer(async (req, res) => {
+    if (req.headers['authorization'] !== `Bearer ${TOKEN}`) {
+      res.writeHead(401).end('Unauthorized');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined;
+
+    if (req.method === 'GET' && req.headers['last-event-id']) {
+      stats.resumed++;
+    } else if (req.method === 'GET') {
+      notificationStream = res;
+    }
+
+    if (body?.method === 'tools/call' && body.params?.name === 'slowEcho' && stats.dropped === 0) {
+      stats.dropped++;
+      const write = res.write.bind(res) as (chunk: unknown) => boolean;
+      res.write = ((chunk: unknown) => {
+        const written = write(chunk);
+        if (String(chunk).includes('id: ')) {
+          setImmediate(() => res.socket?.destroy());
+        }
+        return written;
+      }) as typeof res.write;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    let transport = typeof sessionId === 'string' ? transports.get(sessionId) : undefined;
+
+    if (!transport) {
+      transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore,
+        onsessioninitialized: id => {
+          transports.set(id, transport!);
+        }
+      });
+      await createStandInServer().connect(transport);
+    }
+
+    await transport.handleRequest(req, res, body);
+  });
+
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    stats,
+    dropNotificationStream: () => notificationStream?.socket?.destroy(),
+    close: async () => {
+      await Promise.all([...transports.values()].map(transport => transport.close()));
+      httpServer.closeAllConnections();
+      await new Promise(resolve => httpServer.close(resolve));
+    }
+  };
+}
+
+async function testStreamableHTTP() {
+  console.log(chalk.blue.bold('🧪 Testing Streamable HTTP Transport'));
+  console.log(chalk.gray('====================================='));
+
+  const standIn = await startStandIn();
+  const client = new AtlassianMCPClient({
+    connection: { type: 'endpoint', url: standIn.url, headers: { Authorization: `Bearer ${TOKEN}` } },
+    logger: createConsoleLogger('warn'),
+    toolCatalogCache: false,
+    validateArguments: false
+  });
+  let failed = false;
+
+  const check = (label: string, ok: boolean, detail = '') => {
+    console.log(ok ? chalk.green(`✅ ${label}`) : chalk.red(`❌ ${label}`), chalk.gray(detail));
+    failed ||= !ok;
+  };
+
+  try {
+    console.log(chalk.yellow('\n1. Connecting with a bearer token...'));
+    await client.connect();
+    check('Connected', client.isConnectedToServer());
+    check('Session id assigned', client.getSessionId() !== null, client.getSessionId() ?? '');
+    check('Site resolved through the stand-in', client.getCloudId() === 'stand-in-cloud');
+
+    console.log(chalk.yellow('\n2. Calling a tool whose response stream is dropped...'));
+    const echoed = await client.callTool('slowEcho', { text: 'hello' });
+    check('Result delivered after resuming', echoed === 'hello', JSON.stringify(echoed));
+    check('Stream resumed with Last-Event-ID', standIn.stats.resumed > 0, `${standIn.stats.resumed} resume(s)`);
+
+    console.log(chalk.yellow('\n3. Dropping the notification stream during a call...'));
+    const resumedBefore = standIn.stats.resumed;
+    const call = client.callTool('slowEcho', { text: 'again' });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    standIn.dropNotificationStream();
+    check('Live call unaffected', await call === 'again');
+    check('Live response stream not resumed', standIn.stats.resumed === resumedBefore, `${standIn.stats.resumed - resumedBefore} extra resume(s)`);
+  } catch (error) {
+    check('Unexpected error', false, error instanceof Error ? error.message : String(error));
+  } finally {
+    await client.disconnect();
+    await standIn.close();
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+  console.log(chalk.green.bold('\n🎉 Streamable HTTP transport works against the stand-in server'));
+}
+
+testStreamableHTTP().catch(error => {
+  console.error(chalk.red('❌ Test failed:'), error);
+  process.exit(1);
+});
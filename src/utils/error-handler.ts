@@ -104,6 +104,74 @@ export class ConfluenceError extends AtlassianMCPError {
   }
 }
 
+/**
+ * Tool arguments rejected by the tool's input schema before the call was sent
+ */
+export class ToolValidationError extends AtlassianMCPError {
+  public readonly toolName: string;
+  public readonly issues: string[];
+
+  constructor(toolName: string, issues: string[]) {
+    super(`Invalid arguments for ${toolName}: ${issues.join('; ')}`, 'VALIDATION_ERROR', 400);
+    this.name = 'ToolValidationError';
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+/**
+ * A tool call that reached the server but came back with isError: true
+ */
+export class ToolExecutionError extends AtlassianMCPError {
+  public readonly toolName: string;
+  public readonly serverMessage: string;
+
+  constructor(toolName: string, serverMessage: string) {
+    super(`Tool ${toolName} failed: ${serverMessage}`, 'TOOL_EXECUTION_ERROR');
+    this.name = 'ToolExecutionError';
+    this.toolName = toolName;
+    this.serverMessage = serverMessage;
+  }
+}
+
+/**
+ * A logical operation the connected server has no tool for, or more than one
+ */
+export class CapabilityError extends AtlassianMCPError {
+  public readonly operation: string;
+  public readonly candidates: string[];
+
+  constructor(operation: string, candidates: string[], message: string) {
+    super(message, 'CAPABILITY_ERROR');
+    this.name = 'CapabilityError';
+    this.operation = operation;
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * A request the caller cancelled before it completed
+ */
+export class RequestCancelledError extends AtlassianMCPError {
+  constructor(message: string, originalError?: Error) {
+    super(message, 'CANCELLED', undefined, originalError);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * A request that did not complete within its timeout
+ */
+export class RequestTimeoutError extends AtlassianMCPError {
+  public readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number, originalError?: Error) {
+    super(message, 'TIMEOUT_ERROR', 408, originalError);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
 /**
  * Error handler that logs and optionally transforms errors
  */
@@ -114,30 +182,46 @@ export class ErrorHandler {
    * Handle and log an error, returning a user-friendly message
    */
   public handle(error: unknown, context?: string): AtlassianMCPError {
+    const normalized = this.normalize(error, context);
+    const contextStr = context ? `[${context}] ` : '';
+
+    if (normalized instanceof RequestCancelledError) {
+      // Cancelling is something the user did, not a failure
+      this.logger.info(`${contextStr}${normalized.message}`);
+    } else if (normalized === error) {
+      this.logger.error(`${contextStr}${normalized.message}`, error);
+    } else if (error instanceof Error) {
+      this.logger.error(`${contextStr}Unexpected error: ${error.message}`, error);
+    } else {
+      this.logger.error(`${contextStr}Unknown error type`, { error });
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Wrap any thrown value in an AtlassianMCPError without logging it
+   */
+  public normalize(error: unknown, context?: string): AtlassianMCPError {
     const contextStr = context ? `[${context}] ` : '';
 
     if (error instanceof AtlassianMCPError) {
-      this.logger.error(`${contextStr}${error.message}`, error);
       return error;
     }
 
     if (error instanceof Error) {
-      const wrappedError = new AtlassianMCPError(
-        `${contextStr}${error.message}`,
-        'UNKNOWN_ERROR',
-        undefined,
-        error
-      );
-      this.logger.error(`${contextStr}Unexpected error: ${error.message}`, error);
-      return wrappedError;
+      return new AtlassianMCPError(`${contextStr}${error.message}`, 'UNKNOWN_ERROR', undefined, error);
     }
 
-    const unknownError = new AtlassianMCPError(
-      `${contextStr}An unknown error occurred: ${String(error)}`,
-      'UNKNOWN_ERROR'
-    );
-    this.logger.error(`${contextStr}Unknown error type`, { error });
-    return unknownError;
+    return new AtlassianMCPError(`${contextStr}An unknown error occurred: ${String(error)}`, 'UNKNOWN_ERROR');
+  }
+
+  /**
+   * Log a failed attempt that will be retried
+   */
+  public logRetry(error: AtlassianMCPError, attempt: number, maxRetries: number, delayMs: number, context?: string): void {
+    const contextStr = context ? `[${context}] ` : '';
+    this.logger.warn(`${contextStr}${error.message}; retrying in ${delayMs}ms (attempt ${attempt} of ${maxRetries})`);
   }
 
   /**
@@ -168,6 +252,13 @@ export class ErrorHandler {
       
       case 'CONFLUENCE_ERROR':
         return `Confluence operation failed: ${error.message}`;
+
+      case 'VALIDATION_ERROR':
+      case 'TOOL_EXECUTION_ERROR':
+      case 'CAPABILITY_ERROR':
+      case 'CANCELLED':
+      case 'TIMEOUT_ERROR':
+        return error.message;
       
       default:
         return 'An unexpected error occurred. Please try again or contact support.';
@@ -199,7 +290,8 @@ export class ErrorHandler {
 }
 
 /**
- * Async retry wrapper with exponential backoff
+ * Async retry wrapper with exponential backoff. Retried attempts are logged as
+ * warnings; the final error is thrown unlogged for the caller to report once
  */
 export async function withRetry<T>(
   operation: () => Promise<T>,
@@ -213,13 +305,14 @@ export async function withRetry<T>(
     try {
       return await operation();
     } catch (error) {
-      lastError = errorHandler.handle(error, context);
+      lastError = errorHandler.normalize(error, context);
 
       if (attempt === maxRetries || !errorHandler.isRetryable(lastError)) {
         throw lastError;
       }
 
       const delay = errorHandler.getRetryDelay(lastError, attempt);
+      errorHandler.logRetry(lastError, attempt, maxRetries, delay, context);
       await new Promise(resolve => setTimeout(resolve, delay));
     }
   }
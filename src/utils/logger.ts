@@ -63,31 +63,4 @@ export function createLogger(config: ApplicationConfig): Logger {
   };
 }
 
-/**
- * Simple console logger for cases where winston isn't available
- */
-export function createConsoleLogger(level: 'debug' | 'info' | 'warn' | 'error' = 'info'): Logger {
-  const levels = { debug: 0, info: 1, warn: 2, error: 3 };
-  const currentLevel = levels[level];
-
-  const log = (logLevel: keyof typeof levels, message: string, meta?: any) => {
-    if (levels[logLevel] >= currentLevel) {
-      const timestamp = new Date().toISOString();
-      const metaStr = meta ? ` ${JSON.stringify(meta)}` : '';
-      console[logLevel === 'debug' ? 'log' : logLevel](`${timestamp} [${logLevel.toUpperCase()}]: ${message}${metaStr}`);
-    }
-  };
-
-  return {
-    debug: (message: string, meta?: any) => log('debug', message, meta),
-    info: (message: string, meta?: any) => log('info', message, meta),
-    warn: (message: string, meta?: any) => log('warn', message, meta),
-    error: (message: string, error?: Error | any) => {
-      if (error instanceof Error) {
-        log('error', message, { error: error.message, stack: error.stack });
-      } else {
-        log('error', message, { error });
-      }
-    }
-  };
-}
+export { createConsoleLogger } from './console-logger.js';
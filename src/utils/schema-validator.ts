@@ -0,0 +1,222 @@
+/**
+ * Lightweight JSON Schema validation for MCP tool arguments
+ *
+ * Covers the subset of JSON Schema that MCP servers emit for tool inputs
+ * (type, properties, required, additionalProperties, items, enum, const,
+ * anyOf/oneOf and simple numeric/string bounds). Values are coerced where the
+ * intent is unambiguous, e.g. "10" for an integer field becomes 10.
+ */
+
+export interface JSONSchema {
+  type?: string | string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  value: unknown;
+  errors: string[];
+}
+
+/**
+ * Validate (and coerce) a value against a JSON schema.
+ *
+ * Unknown object properties are rejected unless the schema explicitly allows
+ * them through `additionalProperties`, since a misspelled argument name is
+ * almost always a mistake rather than an extension.
+ */
+export function validateAgainstSchema(schema: JSONSchema, value: unknown): SchemaValidationResult {
+  const errors: string[] = [];
+  const coerced = validateNode(schema, value, '', errors);
+  return { valid: errors.length === 0, value: coerced, errors };
+}
+
+function validateNode(schema: JSONSchema, value: unknown, path: string, errors: string[]): unknown {
+  const label = path || 'arguments';
+
+  if (schema.anyOf || schema.oneOf) {
+    const branches = (schema.anyOf ?? schema.oneOf)!;
+    for (const branch of branches) {
+      const branchErrors: string[] = [];
+      const branchValue = validateNode(branch, value, path, branchErrors);
+      if (branchErrors.length === 0) {
+        return branchValue;
+      }
+    }
+    errors.push(`${label} does not match any of the allowed shapes`);
+    return value;
+  }
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  let current = value;
+
+  if (types.length > 0 && !types.some(type => matchesType(type, current))) {
+    const coercedValue = coerce(types, current);
+    if (coercedValue === undefined) {
+      errors.push(`${label} must be of type ${types.join(' | ')}, got ${describeType(current)}`);
+      return value;
+    }
+    current = coercedValue;
+  }
+
+  if (schema.const !== undefined && current !== schema.const) {
+    errors.push(`${label} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.includes(current)) {
+    errors.push(`${label} must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof current === 'number') {
+    if (schema.minimum !== undefined && current < schema.minimum) {
+      errors.push(`${label} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && current > schema.maximum) {
+      errors.push(`${label} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof current === 'string') {
+    if (schema.minLength !== undefined && current.length < schema.minLength) {
+      errors.push(`${label} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && current.length > schema.maxLength) {
+      errors.push(`${label} must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(current)) {
+    if (schema.minItems !== undefined && current.length < schema.minItems) {
+      errors.push(`${label} must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && current.length > schema.maxItems) {
+      errors.push(`${label} must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      current = current.map((item, index) => validateNode(itemSchema, item, `${label}[${index}]`, errors));
+    }
+  }
+
+  if (isPlainObject(current) && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+    current = validateObject(schema, current, path, errors);
+  }
+
+  return current;
+}
+
+function validateObject(
+  schema: JSONSchema,
+  value: Record<string, unknown>,
+  path: string,
+  errors: string[]
+): Record<string, unknown> {
+  const properties = schema.properties ?? {};
+  const result: Record<string, unknown> = {};
+
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined) {
+      errors.push(`missing required property "${joinPath(path, name)}"`);
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    if (propertyValue === undefined) {
+      continue;
+    }
+
+    const propertySchema = properties[name];
+    if (propertySchema) {
+      result[name] = validateNode(propertySchema, propertyValue, joinPath(path, name), errors);
+    } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      result[name] = validateNode(schema.additionalProperties, propertyValue, joinPath(path, name), errors);
+    } else if (schema.additionalProperties === true) {
+      result[name] = propertyValue;
+    } else {
+      const known = Object.keys(properties);
+      const hint = known.length > 0 ? ` (expected one of: ${known.join(', ')})` : '';
+      errors.push(`unknown property "${joinPath(path, name)}"${hint}`);
+    }
+  }
+
+  return result;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Coerce simple scalar mismatches; returns undefined when no safe coercion exists
+ */
+function coerce(types: string[], value: unknown): unknown {
+  for (const type of types) {
+    if ((type === 'number' || type === 'integer') && typeof value === 'string' && value.trim() !== '') {
+      const parsed = Number(value);
+      if (matchesType(type, parsed)) {
+        return parsed;
+      }
+    }
+
+    if (type === 'boolean' && typeof value === 'string') {
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+    }
+
+    if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+      return String(value);
+    }
+
+    if (type === 'array' && value !== undefined && value !== null && !Array.isArray(value)) {
+      return [value];
+    }
+  }
+
+  return undefined;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
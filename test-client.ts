@@ -6,7 +6,7 @@
 
 import { loadConfig } from './src/config/atlassian-config.js';
 import { createConsoleLogger } from './src/utils/logger.js';
-import { AtlassianMCPClient } from './src/client/atlassian-client.js';
+import { AtlassianMCPClient } from './src/client/atlassian-mcp-client.js';
 
 async function testClient() {
   const logger = createConsoleLogger();
@@ -27,8 +27,9 @@ async function testClient() {
     // Test 2: Client initialization
     console.log('🔧 Test 2: Initializing client...');
     const client = new AtlassianMCPClient({
-      config,
-      logger
+      connection: { type: 'oauth', atlassian: config.atlassian },
+      logger,
+      maxRetries: config.rateLimit.maxRetries
     });
     console.log('✅ Client initialized successfully!\n');
     
@@ -45,12 +46,12 @@ async function testClient() {
       'connect()',
       'disconnect()',
       'authenticate()',
-      'searchJiraIssues(options)',
-      'createJiraIssue(data)',
-      'searchConfluenceContent(options)',
-      'createConfluencePage(data)',
-      'executeQuery(query)',
-      'getAvailableTools()',
+      'searchIssues(jql, options)',
+      'createIssue(input)',
+      'searchWithCql(cql, options)',
+      'createPage(input)',
+      'callTool(name, params)',
+      'listTools()',
       'healthCheck()'
     ];
     
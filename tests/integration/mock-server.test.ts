@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { AtlassianMCPClient } from '../../src/client/atlassian-mcp-client.js';
+import { startMockHttpServer, type MockHttpServer } from '../../src/mock-server/mock-atlassian-server.js';
+import { MOCK_CLOUD_ID } from '../../src/mock-server/seed-data.js';
+import { ToolExecutionError } from '../../src/utils/error-handler.js';
+import type { Logger } from '../../src/utils/logger.js';
+
+/** Failures are asserted on, not printed */
+const silent: Logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+
+describe('AtlassianMCPClient against the mock server', () => {
+  let mock: MockHttpServer;
+  let client: AtlassianMCPClient;
+
+  beforeAll(async () => {
+    mock = await startMockHttpServer();
+    client = new AtlassianMCPClient({
+      connection: { type: 'endpoint', url: mock.url },
+      logger: silent,
+      fixture: false,
+      toolCatalogCache: false,
+      responseCache: false,
+      auditLog: false
+    });
+    await client.connect();
+  });
+
+  afterAll(async () => {
+    await client.disconnect();
+    await mock.close();
+  });
+
+  it('resolves the site and maps every operation', () => {
+    expect(client.getCloudId()).toBe(MOCK_CLOUD_ID);
+    expect(client.getCapabilities()?.missing).toEqual([]);
+  });
+
+  it('searches Jira with JQL', async () => {
+    const result = await client.searchIssues('project = PROJ AND status != Done ORDER BY created DESC');
+    expect(result.issues.map(issue => issue.key)).toEqual(['PROJ-4', 'PROJ-3', 'PROJ-2']);
+  });
+
+  it('creates and transitions an issue', async () => {
+    const created = await client.createIssue({ projectKey: 'OPS', issueTypeName: 'Bug', summary: 'Disk almost full' });
+    expect(created.key).toBe('OPS-3');
+
+    await client.transitionIssue(created.key, '31');
+    const issue = await client.getIssue(created.key);
+    expect(issue.fields.summary).toBe('Disk almost full');
+    expect(issue.fields.status?.name).toBe('Done');
+  });
+
+  it('reports invalid JQL as a failed tool call', async () => {
+    await expect(client.searchIssues('sprint = 1')).rejects.toBeInstanceOf(ToolExecutionError);
+  });
+
+  it('lists spaces and searches Confluence with CQL', async () => {
+    expect((await client.listSpaces()).map(space => space.key)).toEqual(['ENG', 'HR']);
+
+    const hits = await client.searchWithCql('space = ENG AND text ~ "on-call"');
+    expect(hits.results[0]?.title).toBe('Incident Runbook');
+  });
+
+  it('creates and updates a page', async () => {
+    const page = await client.createPage({ spaceId: '98301', title: 'Release checklist', body: '<p>v1</p>' });
+    const updated = await client.updatePage(page.id, { body: '<p>v2</p>' });
+
+    expect(updated.version?.number).toBe(2);
+    expect((await client.getPage(page.id)).title).toBe('Release checklist');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from '@jest/globals';
+import { QueryError, jiraIssueFields, runQuery } from '../../src/mock-server/query.js';
+import { createSeedData } from '../../src/mock-server/seed-data.js';
+
+const { issues } = createSeedData();
+const keys = (query: string, currentUser = 'mock-user-alice') =>
+  runQuery(issues, query, jiraIssueFields, currentUser).map(issue => issue.key);
+
+describe('mock JQL evaluator', () => {
+  it('filters with AND and sorts with ORDER BY', () => {
+    expect(keys('project = PROJ AND status != Done ORDER BY created DESC')).toEqual(['PROJ-4', 'PROJ-3', 'PROJ-2']);
+  });
+
+  it('supports OR, NOT and parentheses', () => {
+    expect(keys('(project = OPS OR labels = setup) AND NOT status = Done ORDER BY key')).toEqual(['OPS-1']);
+  });
+
+  it('resolves currentUser() and IN', () => {
+    expect(keys('assignee = currentUser() AND labels IN (setup, frontend)')).toEqual(['PROJ-1']);
+    expect(keys('assignee = currentUser() ORDER BY key', 'mock-user-bob')).toEqual(['OPS-1', 'OPS-2', 'PROJ-2']);
+  });
+
+  it('matches empty fields with IS EMPTY', () => {
+    expect(keys('assignee IS EMPTY')).toEqual(['PROJ-3']);
+  });
+
+  it('rejects unknown fields', () => {
+    expect(() => keys('sprint = 1')).toThrow(QueryError);
+  });
+});